@@ -0,0 +1,119 @@
+import * as React from "react"
+
+import type {
+  GenerateSnakeResponse,
+  GenerationClientMessage,
+  GenerationServerMessage,
+} from "@shared/schema"
+
+const SOCKET_PATH = "/ws/generate"
+
+export type GenerationLiveProgress = {
+  attempt: number
+  bestCoverage: number
+  snakes: number
+  covered: number
+}
+
+type Handlers = {
+  onResult?: (response: GenerateSnakeResponse) => void
+  onError?: () => void
+}
+
+// Runs a generation over the /ws/generate socket, exposing live progress and cancellation
+export function useGenerationSocket({ onResult, onError }: Handlers = {}) {
+  const [isPending, setIsPending] = React.useState(false)
+  const [isError, setIsError] = React.useState(false)
+  const [data, setData] = React.useState<GenerateSnakeResponse | null>(null)
+  const [progress, setProgress] = React.useState<GenerationLiveProgress | null>(null)
+  const socketRef = React.useRef<WebSocket | null>(null)
+
+  // Keep the latest handlers without reopening the socket
+  const handlersRef = React.useRef({ onResult, onError })
+  handlersRef.current = { onResult, onError }
+
+  const close = React.useCallback(() => {
+    const socket = socketRef.current
+    socketRef.current = null
+    socket?.close()
+  }, [])
+
+  React.useEffect(() => close, [close])
+
+  const generate = React.useCallback((request: unknown) => {
+    close()
+    setIsPending(true)
+    setIsError(false)
+    setData(null)
+    setProgress(null)
+
+    const protocol = window.location.protocol === "https:" ? "wss" : "ws"
+    const socket = new WebSocket(`${protocol}://${window.location.host}${SOCKET_PATH}`)
+    socketRef.current = socket
+
+    socket.onopen = () => {
+      const message: GenerationClientMessage = { type: "start", request }
+      socket.send(JSON.stringify(message))
+    }
+
+    socket.onmessage = (e) => {
+      const message = JSON.parse(e.data) as GenerationServerMessage
+
+      if (message.type === "event") {
+        const { event } = message
+        setProgress((current) => {
+          const next = current ?? { attempt: 1, bestCoverage: 0, snakes: 0, covered: 0 }
+          switch (event.type) {
+            case "attempt":
+              return { ...next, attempt: event.attempt, snakes: 0, covered: 0 }
+            case "place":
+            case "backtrack":
+              return { ...next, attempt: event.attempt, snakes: event.snakes, covered: event.covered }
+            case "progress":
+              return { ...next, attempt: event.attempt, bestCoverage: event.bestCoverage }
+          }
+        })
+      } else if (message.type === "result") {
+        setData(message.response)
+        setIsPending(false)
+        close()
+        handlersRef.current.onResult?.(message.response)
+      }
+    }
+
+    const fail = () => {
+      if (socketRef.current !== socket) return
+      setIsError(true)
+      setIsPending(false)
+      close()
+      handlersRef.current.onError?.()
+    }
+
+    socket.onerror = fail
+
+    // The socket is only still current here if it closed before a result arrived
+    // (server restart, proxy timeout); closes we started clear the ref first
+    socket.onclose = fail
+  }, [close])
+
+  const cancel = React.useCallback(() => {
+    const socket = socketRef.current
+    if (socket?.readyState === WebSocket.OPEN) {
+      const message: GenerationClientMessage = { type: "cancel" }
+      socket.send(JSON.stringify(message))
+    }
+    close()
+    setIsPending(false)
+    setProgress(null)
+  }, [close])
+
+  return {
+    generate,
+    cancel,
+    isPending,
+    isError,
+    isSuccess: data !== null,
+    data,
+    progress,
+  }
+}
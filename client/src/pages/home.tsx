@@ -1,16 +1,28 @@
-import { useState, useRef, useEffect } from "react";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useState, useRef, useEffect, type MouseEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Download, CheckCircle2, AlertCircle, Copy } from "lucide-react";
-import type { GenerateSnakeResponse, SnakeShape } from "@shared/schema";
+import { useGenerationSocket } from "@/hooks/use-generation-socket";
+import { Loader2, Download, CheckCircle2, AlertCircle, Copy, X, RefreshCw } from "lucide-react";
+import type {
+  GenerateSnakeRequestBody,
+  GenerateSnakeResponse,
+  SnakeShape,
+  Difficulty,
+  GeneratorAlgorithm,
+  Position,
+  Direction,
+  GridTopology,
+  PartialFill,
+  Objective,
+} from "@shared/schema";
 
 const DEFAULT_SHAPE = `   ######  ######
  ######## ########
@@ -35,48 +47,221 @@ const SNAKE_COLORS = [
   "#84CC16", // Lime
 ];
 
+const CELL_SIZE = 24;
+const CANVAS_PADDING = 8;
+
+// Pointy-top hexes are CELL_SIZE wide; rows overlap by a quarter of their height
+const HEX_RADIUS = CELL_SIZE / Math.sqrt(3);
+const HEX_ROW_HEIGHT = HEX_RADIUS * 1.5;
+
+// Canvas angle (degrees, clockwise from right) each head direction points at
+const ARROW_ANGLES: Record<Direction, number> = {
+  "right": 0,
+  "down-right": 60,
+  "down": 90,
+  "down-left": 120,
+  "left": 180,
+  "up-left": 240,
+  "up": 270,
+  "up-right": 300,
+};
+
+// Pixel center of a cell; hex positions are offset coordinates with odd rows shifted half a cell right
+function cellCenter(pos: Position, hex: boolean): Position {
+  if (!hex) {
+    return {
+      x: CANVAS_PADDING + (pos.x + 0.5) * CELL_SIZE,
+      y: CANVAS_PADDING + (pos.y + 0.5) * CELL_SIZE,
+    };
+  }
+  return {
+    x: CANVAS_PADDING + (pos.x + 0.5 + 0.5 * (pos.y & 1)) * CELL_SIZE,
+    y: CANVAS_PADDING + HEX_RADIUS + pos.y * HEX_ROW_HEIGHT,
+  };
+}
+
+// Start a path around a cell's outline, shrunk by `inset` pixels
+function traceCell(ctx: CanvasRenderingContext2D, pos: Position, hex: boolean, inset: number) {
+  const center = cellCenter(pos, hex);
+  ctx.beginPath();
+  if (!hex) {
+    const half = CELL_SIZE / 2 - inset;
+    ctx.rect(center.x - half, center.y - half, half * 2, half * 2);
+    return;
+  }
+  const radius = HEX_RADIUS - inset;
+  for (let corner = 0; corner < 6; corner++) {
+    const angle = (Math.PI / 180) * (60 * corner - 90);
+    ctx.lineTo(center.x + radius * Math.cos(angle), center.y + radius * Math.sin(angle));
+  }
+  ctx.closePath();
+}
+
+// Find the cell under a canvas point; on hex boards that is the cell with the nearest center
+function cellAtPoint(x: number, y: number, hex: boolean): Position {
+  if (!hex) {
+    return {
+      x: Math.floor((x - CANVAS_PADDING) / CELL_SIZE),
+      y: Math.floor((y - CANVAS_PADDING) / CELL_SIZE),
+    };
+  }
+
+  const row = Math.round((y - CANVAS_PADDING - HEX_RADIUS) / HEX_ROW_HEIGHT);
+  let best = { x: 0, y: row };
+  let bestDistance = Infinity;
+  for (let r = row - 1; r <= row + 1; r++) {
+    const cell = { x: Math.round((x - CANVAS_PADDING) / CELL_SIZE - 0.5 - 0.5 * (r & 1)), y: r };
+    const center = cellCenter(cell, true);
+    const distance = (center.x - x) ** 2 + (center.y - y) ** 2;
+    if (distance < bestDistance) {
+      best = cell;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+type CellRect = { from: Position; to: Position };
+
+// Whether a cell lies inside the rectangle spanned by two corner cells
+function inRect(pos: Position, { from, to }: CellRect) {
+  return pos.x >= Math.min(from.x, to.x) && pos.x <= Math.max(from.x, to.x) &&
+    pos.y >= Math.min(from.y, to.y) && pos.y <= Math.max(from.y, to.y);
+}
+
 export default function Home() {
   const [asciiShape, setAsciiShape] = useState(DEFAULT_SHAPE);
   const [minSnakeLen, setMinSnakeLen] = useState(2);
   const [maxSnakeLen, setMaxSnakeLen] = useState(13);
   const [randomSeed, setRandomSeed] = useState("");
+  const [algorithm, setAlgorithm] = useState<GeneratorAlgorithm>("greedy");
+  const [topology, setTopology] = useState<GridTopology>("square");
+  const [objective, setObjective] = useState<Objective | "none">("none");
+  const [resultTopology, setResultTopology] = useState<GridTopology>("square");
   const [generatedShapes, setGeneratedShapes] = useState<SnakeShape[] | null>(null);
   const [attempts, setAttempts] = useState<number | null>(null);
+  const [difficulty, setDifficulty] = useState<Difficulty | null>(null);
+  const [failedFill, setFailedFill] = useState<PartialFill | null>(null);
+  const [selectedSnakes, setSelectedSnakes] = useState<number[]>([]);
+  const [dragRect, setDragRect] = useState<CellRect | null>(null);
+  const regeneratingRef = useRef(false);
+  const pendingRequestRef = useRef<GenerateSnakeRequestBody | null>(null);
+  const resultRequestRef = useRef<GenerateSnakeRequestBody | null>(null);  // Request behind the displayed snakes
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { toast } = useToast();
 
-  const generateMutation = useMutation({
-    mutationFn: async (data: { asciiShape: string; minSnakeLen: number; maxSnakeLen: number; randomSeed?: number }) => {
-      const response = await apiRequest("POST", "/api/generate", data);
-      return await response.json() as GenerateSnakeResponse;
-    },
-    onSuccess: (data) => {
+  const clearResults = () => {
+    // A failed region reroll keeps the level it started from
+    if (regeneratingRef.current) return;
+    setGeneratedShapes(null);
+    setAttempts(null);
+    setDifficulty(null);
+    setFailedFill(null);
+  };
+
+  const generation = useGenerationSocket({
+    onResult: (data: GenerateSnakeResponse) => {
       if (data.success && data.shapes) {
+        resultRequestRef.current = pendingRequestRef.current;
         setGeneratedShapes(data.shapes);
         setAttempts(data.attempts || null);
+        setDifficulty(data.difficulty || null);
+        setResultTopology(data.board?.grid.topology ?? "square");
+        setFailedFill(null);
+        setSelectedSnakes([]);
       } else {
         // Clear stale results on failure
-        setGeneratedShapes(null);
-        setAttempts(null);
+        clearResults();
+
+        // Show how far the search got, or the cells that make the shape impossible
+        const problemCells = data.diagnostics?.flatMap(diagnostic => diagnostic.cells) ?? [];
+        if (!regeneratingRef.current && (data.partialFill || problemCells.length > 0)) {
+          setResultTopology(data.board?.grid.topology ?? "square");
+          setFailedFill(data.partialFill ?? { shapes: [], uncovered: problemCells });
+        }
       }
     },
     onError: () => {
       // Clear stale results on error
-      setGeneratedShapes(null);
-      setAttempts(null);
+      clearResults();
     },
   });
 
+  const runGeneration = (request: GenerateSnakeRequestBody) => {
+    pendingRequestRef.current = request;
+    generation.generate(request);
+  };
+
   const handleGenerate = () => {
-    const seed = randomSeed.trim() ? parseInt(randomSeed) : undefined;
-    generateMutation.mutate({
+    const seed = randomSeed.trim() || undefined;
+    regeneratingRef.current = false;
+    setSelectedSnakes([]);
+    runGeneration({
       asciiShape,
       minSnakeLen,
       maxSnakeLen,
       randomSeed: seed,
+      algorithm,
+      grid: topology === "hex" ? { topology } : undefined,
+      objective: objective === "none" ? undefined : objective,
+    });
+  };
+
+  // Keep every unselected snake and re-tile the selected ones' cells with a fresh seed
+  // Reuses the request behind the displayed level, so later form edits don't apply to it
+  const handleRegenerateSelection = () => {
+    if (!generatedShapes || !resultRequestRef.current || selectedSnakes.length === 0) return;
+    regeneratingRef.current = true;
+    runGeneration({
+      ...resultRequestRef.current,
+      randomSeed: undefined,
+      lockedSnakes: generatedShapes
+        .filter((_, index) => !selectedSnakes.includes(index))
+        .map(snake => snake.positions),
     });
   };
 
+  const cellAt = (e: MouseEvent<HTMLCanvasElement>): Position => {
+    const canvas = e.currentTarget;
+    const bounds = canvas.getBoundingClientRect();
+    const x = (e.clientX - bounds.left) * (canvas.width / bounds.width);
+    const y = (e.clientY - bounds.top) * (canvas.height / bounds.height);
+    return cellAtPoint(x, y, resultTopology === "hex");
+  };
+
+  const handleCanvasMouseDown = (e: MouseEvent<HTMLCanvasElement>) => {
+    const cell = cellAt(e);
+    setDragRect({ from: cell, to: cell });
+  };
+
+  const handleCanvasMouseMove = (e: MouseEvent<HTMLCanvasElement>) => {
+    if (!dragRect) return;
+    setDragRect({ from: dragRect.from, to: cellAt(e) });
+  };
+
+  // A click toggles the snake under the cursor; a drag adds every snake touching the rectangle
+  const handleCanvasMouseUp = () => {
+    if (!dragRect || !generatedShapes) return;
+    const { from, to } = dragRect;
+    setDragRect(null);
+
+    if (from.x === to.x && from.y === to.y) {
+      const index = generatedShapes.findIndex(snake =>
+        snake.positions.some(pos => pos.x === from.x && pos.y === from.y)
+      );
+      if (index === -1) return;
+      setSelectedSnakes(selectedSnakes.includes(index)
+        ? selectedSnakes.filter(i => i !== index)
+        : [...selectedSnakes, index]);
+      return;
+    }
+
+    const touched = generatedShapes
+      .map((snake, index) => snake.positions.some(pos => inRect(pos, dragRect)) ? index : -1)
+      .filter(index => index !== -1 && !selectedSnakes.includes(index));
+    setSelectedSnakes([...selectedSnakes, ...touched]);
+  };
+
   const getJSONString = () => {
     if (!generatedShapes) return "";
     return JSON.stringify({ shapes: generatedShapes }, null, 2);
@@ -115,7 +300,8 @@ export default function Home() {
   };
 
   useEffect(() => {
-    if (!generatedShapes || !canvasRef.current) return;
+    const shapes = generatedShapes ?? failedFill?.shapes;
+    if (!shapes || !canvasRef.current) return;
 
     const canvas = canvasRef.current;
     const ctx = canvas.getContext("2d");
@@ -126,11 +312,17 @@ export default function Home() {
     const height = lines.length;
     const width = Math.max(...lines.map(line => line.length));
 
-    const cellSize = 24;
-    const padding = 8;
+    const cellSize = CELL_SIZE;
+    const padding = CANVAS_PADDING;
+    const hex = resultTopology === "hex";
     
-    canvas.width = width * cellSize + padding * 2;
-    canvas.height = height * cellSize + padding * 2;
+    if (hex) {
+      canvas.width = (width + 0.5) * cellSize + padding * 2;
+      canvas.height = 2 * HEX_RADIUS + (height - 1) * HEX_ROW_HEIGHT + padding * 2;
+    } else {
+      canvas.width = width * cellSize + padding * 2;
+      canvas.height = height * cellSize + padding * 2;
+    }
 
     // Clear canvas
     ctx.fillStyle = "#ffffff";
@@ -140,80 +332,121 @@ export default function Home() {
     ctx.strokeStyle = "#e5e7eb";
     ctx.lineWidth = 1;
     
-    for (let y = 0; y <= height; y++) {
-      ctx.beginPath();
-      ctx.moveTo(padding, padding + y * cellSize);
-      ctx.lineTo(padding + width * cellSize, padding + y * cellSize);
-      ctx.stroke();
-    }
-    
-    for (let x = 0; x <= width; x++) {
-      ctx.beginPath();
-      ctx.moveTo(padding + x * cellSize, padding);
-      ctx.lineTo(padding + x * cellSize, padding + height * cellSize);
-      ctx.stroke();
+    if (hex) {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          traceCell(ctx, { x, y }, true, 0);
+          ctx.stroke();
+        }
+      }
+    } else {
+      for (let y = 0; y <= height; y++) {
+        ctx.beginPath();
+        ctx.moveTo(padding, padding + y * cellSize);
+        ctx.lineTo(padding + width * cellSize, padding + y * cellSize);
+        ctx.stroke();
+      }
+      
+      for (let x = 0; x <= width; x++) {
+        ctx.beginPath();
+        ctx.moveTo(padding + x * cellSize, padding);
+        ctx.lineTo(padding + x * cellSize, padding + height * cellSize);
+        ctx.stroke();
+      }
     }
 
-    // Helper function to draw directional arrow
-    const drawArrow = (centerX: number, centerY: number, direction: string | null) => {
+    // Draw walls
+    ctx.fillStyle = "#9ca3af";
+    lines.forEach((line, y) => {
+      for (let x = 0; x < line.length; x++) {
+        if (line[x] === "X") {
+          traceCell(ctx, { x, y }, hex, 0);
+          ctx.fill();
+        }
+      }
+    });
+
+    // Helper function to draw directional arrow: a triangle whose tip points the way the head faces
+    const drawArrow = (center: Position, direction: Direction | null) => {
       if (!direction) return;
       
-      ctx.fillStyle = "#ffffff";
-      ctx.beginPath();
-      
       const arrowSize = 7;
+      const angle = (Math.PI / 180) * ARROW_ANGLES[direction];
+      const forward = { x: Math.cos(angle) * arrowSize, y: Math.sin(angle) * arrowSize };
       
-      switch (direction) {
-        case "up":
-          // Triangle pointing up
-          ctx.moveTo(centerX, centerY - arrowSize);
-          ctx.lineTo(centerX - arrowSize, centerY + arrowSize);
-          ctx.lineTo(centerX + arrowSize, centerY + arrowSize);
-          break;
-        case "down":
-          // Triangle pointing down
-          ctx.moveTo(centerX, centerY + arrowSize);
-          ctx.lineTo(centerX - arrowSize, centerY - arrowSize);
-          ctx.lineTo(centerX + arrowSize, centerY - arrowSize);
-          break;
-        case "left":
-          // Triangle pointing left
-          ctx.moveTo(centerX - arrowSize, centerY);
-          ctx.lineTo(centerX + arrowSize, centerY - arrowSize);
-          ctx.lineTo(centerX + arrowSize, centerY + arrowSize);
-          break;
-        case "right":
-          // Triangle pointing right
-          ctx.moveTo(centerX + arrowSize, centerY);
-          ctx.lineTo(centerX - arrowSize, centerY - arrowSize);
-          ctx.lineTo(centerX - arrowSize, centerY + arrowSize);
-          break;
-      }
-      
+      ctx.fillStyle = "#ffffff";
+      ctx.beginPath();
+      ctx.moveTo(center.x + forward.x, center.y + forward.y);
+      ctx.lineTo(center.x - forward.x + forward.y, center.y - forward.y - forward.x);
+      ctx.lineTo(center.x - forward.x - forward.y, center.y - forward.y + forward.x);
       ctx.closePath();
       ctx.fill();
     };
 
     // Draw snakes
-    generatedShapes.forEach((snake, snakeIndex) => {
+    shapes.forEach((snake, snakeIndex) => {
       const color = SNAKE_COLORS[snakeIndex % SNAKE_COLORS.length];
+      const selected = selectedSnakes.includes(snakeIndex);
       
       snake.positions.forEach((pos, index) => {
-        const x = padding + pos.x * cellSize;
-        const y = padding + pos.y * cellSize;
-        
-        // Draw cell
+        // Draw cell, fading the snakes that are about to be regenerated
+        ctx.globalAlpha = selected ? 0.35 : 1;
         ctx.fillStyle = color;
-        ctx.fillRect(x + 2, y + 2, cellSize - 4, cellSize - 4);
+        traceCell(ctx, pos, hex, 2);
+        ctx.fill();
         
         // Draw directional arrow on head (first position)
         if (index === 0) {
-          drawArrow(x + cellSize / 2, y + cellSize / 2, snake.direction);
+          drawArrow(cellCenter(pos, hex), snake.direction);
+        }
+        ctx.globalAlpha = 1;
+
+        if (selected) {
+          ctx.strokeStyle = "#111827";
+          ctx.setLineDash([3, 3]);
+          traceCell(ctx, pos, hex, 2);
+          ctx.stroke();
+          ctx.setLineDash([]);
         }
       });
     });
 
-  }, [generatedShapes, asciiShape]);
+    // Outline the cells a failed generation left uncovered
+    if (failedFill) {
+      ctx.fillStyle = "rgba(239, 68, 68, 0.25)";
+      ctx.strokeStyle = "#DC2626";
+      ctx.lineWidth = 2;
+      failedFill.uncovered.forEach(pos => {
+        traceCell(ctx, pos, hex, 2);
+        ctx.fill();
+        ctx.stroke();
+      });
+      ctx.lineWidth = 1;
+    }
+
+    // Draw the selection rectangle while dragging
+    if (dragRect && hex) {
+      // Hex rows don't line up into a rectangle, so outline each cell it spans
+      ctx.strokeStyle = "#111827";
+      for (let y = Math.min(dragRect.from.y, dragRect.to.y); y <= Math.max(dragRect.from.y, dragRect.to.y); y++) {
+        for (let x = Math.min(dragRect.from.x, dragRect.to.x); x <= Math.max(dragRect.from.x, dragRect.to.x); x++) {
+          traceCell(ctx, { x, y }, true, 0);
+          ctx.stroke();
+        }
+      }
+    } else if (dragRect) {
+      const left = Math.min(dragRect.from.x, dragRect.to.x);
+      const top = Math.min(dragRect.from.y, dragRect.to.y);
+      ctx.strokeStyle = "#111827";
+      ctx.strokeRect(
+        padding + left * cellSize,
+        padding + top * cellSize,
+        (Math.abs(dragRect.to.x - dragRect.from.x) + 1) * cellSize,
+        (Math.abs(dragRect.to.y - dragRect.from.y) + 1) * cellSize
+      );
+    }
+
+  }, [generatedShapes, failedFill, asciiShape, selectedSnakes, dragRect, resultTopology]);
 
   return (
     <div className="h-screen flex flex-col bg-background">
@@ -245,7 +478,7 @@ export default function Home() {
                 Shape Input
               </Label>
               <p className="text-sm text-muted-foreground">
-                Use '#' for cells, spaces for empty areas
+                Use '#' for cells, '@' for cells that must hold a head, 'X' for walls, '.' or spaces for empty areas
               </p>
               <Textarea
                 id="shape-input"
@@ -299,23 +532,74 @@ export default function Home() {
                 <Input
                   id="random-seed"
                   type="text"
-                  placeholder="Leave empty for random"
+                  placeholder="Number or text, e.g. level-42"
                   value={randomSeed}
                   onChange={(e) => setRandomSeed(e.target.value)}
                   data-testid="input-seed"
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="algorithm" className="text-sm">
+                  Algorithm
+                </Label>
+                <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as GeneratorAlgorithm)}>
+                  <SelectTrigger id="algorithm" data-testid="select-algorithm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="greedy">Greedy (fast)</SelectItem>
+                    <SelectItem value="exact">Exact (exhaustive)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Exact search can prove a shape has no solution</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="grid" className="text-sm">
+                  Grid
+                </Label>
+                <Select value={topology} onValueChange={(value) => setTopology(value as GridTopology)}>
+                  <SelectTrigger id="grid" data-testid="select-grid">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="square">Square</SelectItem>
+                    <SelectItem value="hex">Hex</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Hex rows are offset: odd rows sit half a cell to the right</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="objective" className="text-sm">
+                  Objective
+                </Label>
+                <Select value={objective} onValueChange={(value) => setObjective(value as Objective | "none")}>
+                  <SelectTrigger id="objective" data-testid="select-objective">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">First fill found</SelectItem>
+                    <SelectItem value="fewestSnakes">Fewest snakes</SelectItem>
+                    <SelectItem value="longestMean">Longest snakes</SelectItem>
+                    <SelectItem value="lowestVariance">Most even lengths</SelectItem>
+                    <SelectItem value="hardest">Hardest</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Objectives compare fills for two seconds and keep the best</p>
+              </div>
             </Card>
 
             {/* Generate Button */}
             <Button
               onClick={handleGenerate}
-              disabled={generateMutation.isPending}
+              disabled={generation.isPending}
               className="w-full"
               size="lg"
               data-testid="button-generate"
             >
-              {generateMutation.isPending ? (
+              {generation.isPending ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                   Generating...
@@ -325,27 +609,59 @@ export default function Home() {
               )}
             </Button>
 
+            {/* Live Progress */}
+            {generation.isPending && (
+              <Card className="p-4 space-y-3" data-testid="card-progress">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">
+                    {generation.progress ? `Attempt ${generation.progress.attempt}` : "Starting..."}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={generation.cancel}
+                    data-testid="button-cancel"
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
+                <Progress value={(generation.progress?.bestCoverage ?? 0) * 100} />
+                <p className="text-xs text-muted-foreground" data-testid="text-progress">
+                  Best coverage {Math.round((generation.progress?.bestCoverage ?? 0) * 100)}%
+                  {generation.progress && ` · ${generation.progress.snakes} snake${generation.progress.snakes !== 1 ? 's' : ''} placed in current fill`}
+                </p>
+              </Card>
+            )}
+
             {/* Status Messages */}
-            {generateMutation.isSuccess && generateMutation.data.success && (
+            {generation.isSuccess && generation.data?.success && (
               <Alert className="border-green-200 bg-green-50 text-green-900" data-testid="alert-success">
                 <CheckCircle2 className="h-4 w-4 text-green-600" />
                 <AlertDescription>
                   Success! Generated {generatedShapes?.length} snake{generatedShapes?.length !== 1 ? 's' : ''} 
                   {attempts && ` in ${attempts} attempt${attempts !== 1 ? 's' : ''}`}
+                  {difficulty && ` (difficulty ${difficulty.score}/100)`}
+                  {generation.data?.objectiveScore !== undefined && ` · objective score ${generation.data.objectiveScore}`}
+                  {generation.data?.seed !== undefined && (
+                    <span className="block font-mono text-xs mt-1" data-testid="text-seed">
+                      Seed: {generation.data.seed}
+                    </span>
+                  )}
                 </AlertDescription>
               </Alert>
             )}
 
-            {generateMutation.isSuccess && !generateMutation.data.success && (
+            {generation.isSuccess && !generation.data?.success && (
               <Alert className="border-red-200 bg-red-50 text-red-900" data-testid="alert-error">
                 <AlertCircle className="h-4 w-4 text-red-600" />
                 <AlertDescription>
-                  {generateMutation.data.error || "Failed to generate pattern. Try adjusting parameters."}
+                  {generation.data?.error || "Failed to generate pattern. Try adjusting parameters."}
                 </AlertDescription>
               </Alert>
             )}
 
-            {generateMutation.isError && (
+            {generation.isError && (
               <Alert className="border-red-200 bg-red-50 text-red-900" data-testid="alert-error">
                 <AlertCircle className="h-4 w-4 text-red-600" />
                 <AlertDescription>
@@ -359,7 +675,7 @@ export default function Home() {
         {/* Right Panel - Visualization */}
         <div className="flex-1 overflow-auto bg-muted/30">
           <div className="p-8 space-y-6">
-            {!generatedShapes ? (
+            {!generatedShapes && !failedFill ? (
               <div className="flex items-center justify-center h-96 border-2 border-dashed border-border rounded-md bg-background">
                 <div className="text-center space-y-2">
                   <p className="text-lg text-muted-foreground" data-testid="text-empty-state">
@@ -372,44 +688,87 @@ export default function Home() {
                 <div className="flex justify-center">
                   <canvas
                     ref={canvasRef}
-                    className="border border-border rounded-md bg-white shadow-sm"
+                    className="border border-border rounded-md bg-white shadow-sm cursor-crosshair"
+                    onMouseDown={handleCanvasMouseDown}
+                    onMouseMove={handleCanvasMouseMove}
+                    onMouseUp={handleCanvasMouseUp}
+                    onMouseLeave={() => setDragRect(null)}
                     data-testid="canvas-visualization"
                   />
                 </div>
 
+                {failedFill && (
+                  <p className="text-sm text-center text-muted-foreground" data-testid="text-failed-fill">
+                    {failedFill.shapes.length > 0
+                      ? `Closest attempt: ${failedFill.uncovered.length} cell${failedFill.uncovered.length !== 1 ? 's' : ''} left uncovered, outlined in red`
+                      : "Cells outlined in red cannot be covered by any snake"}
+                  </p>
+                )}
+
+                {/* Region Regeneration */}
+                {generatedShapes && (
+                  <div className="flex items-center justify-center gap-2">
+                    <span className="text-sm text-muted-foreground" data-testid="text-selection">
+                      {selectedSnakes.length > 0
+                        ? `${selectedSnakes.length} snake${selectedSnakes.length !== 1 ? 's' : ''} selected`
+                        : "Click snakes or drag a rectangle to select a region"}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSelectedSnakes([])}
+                      disabled={selectedSnakes.length === 0}
+                      data-testid="button-clear-selection"
+                    >
+                      Clear
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={handleRegenerateSelection}
+                      disabled={selectedSnakes.length === 0 || generation.isPending}
+                      data-testid="button-regenerate-selection"
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Regenerate Selection
+                    </Button>
+                  </div>
+                )}
+
                 {/* JSON Output Viewer */}
-                <div className="max-w-4xl mx-auto">
-                  <Accordion type="single" collapsible data-testid="accordion-json">
-                    <AccordionItem value="json-output">
-                      <AccordionTrigger className="text-lg font-medium" data-testid="button-toggle-json">
-                        View JSON Output
-                      </AccordionTrigger>
-                      <AccordionContent>
-                        <Card className="p-4">
-                          <div className="flex items-center justify-between mb-2">
-                            <span className="text-sm text-muted-foreground">
-                              Generated snake configuration
-                            </span>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={handleCopyJSON}
-                              data-testid="button-copy-json"
-                            >
-                              <Copy className="w-4 h-4 mr-2" />
-                              Copy
-                            </Button>
-                          </div>
-                          <div className="border border-border rounded-md bg-muted/50 p-4 overflow-auto max-h-96">
-                            <pre className="font-mono text-sm" data-testid="text-json-output">
-                              {getJSONString()}
-                            </pre>
-                          </div>
-                        </Card>
-                      </AccordionContent>
-                    </AccordionItem>
-                  </Accordion>
-                </div>
+                {generatedShapes && (
+                  <div className="max-w-4xl mx-auto">
+                    <Accordion type="single" collapsible data-testid="accordion-json">
+                      <AccordionItem value="json-output">
+                        <AccordionTrigger className="text-lg font-medium" data-testid="button-toggle-json">
+                          View JSON Output
+                        </AccordionTrigger>
+                        <AccordionContent>
+                          <Card className="p-4">
+                            <div className="flex items-center justify-between mb-2">
+                              <span className="text-sm text-muted-foreground">
+                                Generated snake configuration
+                              </span>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleCopyJSON}
+                                data-testid="button-copy-json"
+                              >
+                                <Copy className="w-4 h-4 mr-2" />
+                                Copy
+                              </Button>
+                            </div>
+                            <div className="border border-border rounded-md bg-muted/50 p-4 overflow-auto max-h-96">
+                              <pre className="font-mono text-sm" data-testid="text-json-output">
+                                {getJSONString()}
+                              </pre>
+                            </div>
+                          </Card>
+                        </AccordionContent>
+                      </AccordionItem>
+                    </Accordion>
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -0,0 +1,72 @@
+/**
+ * Timing comparison of the greedy solver's old and new cores
+ *
+ *   npm run bench                                  default sizes, lengths 2-13
+ *   npm run bench -- --sizes 40,200 --lengths 3-6 --seeds 5 --old-up-to 100
+ *
+ * Version 3 runs the string-keyed solver and version 4 the one on integer cell
+ * indices (server/cellIndex.ts). Each size is a filled square; every seed is one
+ * generateSnakesForShape call, so times include parsing, escape checks and scoring.
+ * The old core needs minutes to give up on large squares, so by default it only
+ * runs up to 50x50. Numbers depend on the machine; compare versions within one run.
+ */
+import type { GeneratorVersion } from "@shared/schema";
+import { generateSnakesForShape } from "../server/snakeGenerator";
+
+const OLD_CORE: GeneratorVersion = 3;
+const NEW_CORE: GeneratorVersion = 4;
+const CORES: GeneratorVersion[] = [OLD_CORE, NEW_CORE];
+
+function option(name: string, fallback: string): string {
+  const at = process.argv.indexOf(`--${name}`);
+  return at >= 0 && process.argv[at + 1] ? process.argv[at + 1] : fallback;
+}
+
+const sizes = option("sizes", "20,50,100,200").split(",").map(Number);
+const [minSnakeLen, maxSnakeLen] = option("lengths", "2-13").split("-").map(Number);
+const seeds = Number(option("seeds", "3"));
+const maxAttempts = Number(option("attempts", "3"));
+const oldUpTo = Number(option("old-up-to", "50"));
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Warm up both cores so the first timed run does not pay for compilation
+for (const generatorVersion of CORES) {
+  generateSnakesForShape(Array(12).fill("#".repeat(12)).join("\n"), minSnakeLen, maxSnakeLen, 0, { generatorVersion });
+}
+
+console.log(`lengths ${minSnakeLen}-${maxSnakeLen}, ${seeds} seeds, up to ${maxAttempts} attempts each\n`);
+console.log("size      version  solved  median ms  max ms  snakes");
+
+for (const size of sizes) {
+  const shape = Array(size).fill("#".repeat(size)).join("\n");
+
+  for (const generatorVersion of CORES) {
+    if (generatorVersion === OLD_CORE && size > oldUpTo) {
+      console.log(`${`${size}x${size}`.padEnd(10)}v${generatorVersion}       skipped (--old-up-to ${oldUpTo})`);
+      continue;
+    }
+
+    const times: number[] = [];
+    const counts: number[] = [];
+
+    for (let seed = 1; seed <= seeds; seed++) {
+      const start = performance.now();
+      const { snakes } = generateSnakesForShape(shape, minSnakeLen, maxSnakeLen, seed, { generatorVersion, maxAttempts });
+      times.push(performance.now() - start);
+      if (snakes) counts.push(snakes.length);
+    }
+
+    console.log([
+      `${size}x${size}`.padEnd(10),
+      `v${generatorVersion}`.padEnd(9),
+      `${counts.length}/${seeds}`.padEnd(8),
+      median(times).toFixed(0).padStart(9),
+      Math.max(...times).toFixed(0).padStart(7),
+      counts.length > 0 ? `  ${median(counts)}` : "  -",
+    ].join(""));
+  }
+}
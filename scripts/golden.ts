@@ -0,0 +1,94 @@
+/**
+ * Golden-seed regression check for the versioned generators
+ *
+ *   npm run golden              verify every case in golden-corpus.json
+ *   npm run golden -- --update  record hashes for cases that have none yet
+ *
+ * Each case pins a generator version, shape, lengths, seed and options to the
+ * SHA-256 of the generated snakes, attempt count and escape order. A mismatch
+ * means a change leaked into an existing version; put it in a new version instead.
+ * From version 2 on, every fill must also pass the checks locked snakes get (cells,
+ * adjacency, walls, facing and escape), rigid pieces included. Version 1 keeps its
+ * own escape rules and is only hashed.
+ * Recorded hashes are never rewritten by --update.
+ */
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { GENERATOR_VERSIONS, type GeneratorVersion } from "@shared/schema";
+import { getGrid } from "../server/grids";
+import { findLockedSnakeProblem, generateSnakesForShape, type GenerateOptions } from "../server/snakeGenerator";
+
+interface GoldenCase {
+  name: string;
+  generatorVersion: GeneratorVersion;
+  asciiShape: string;
+  minSnakeLen: number;
+  maxSnakeLen: number;
+  randomSeed: string | number;
+  options?: Omit<GenerateOptions, "generatorVersion" | "onEvent">;
+  sha256?: string;
+}
+
+const corpusPath = path.resolve(import.meta.dirname, "golden-corpus.json");
+
+function runCase(testCase: GoldenCase): { sha256: string; problem: string | null } {
+  const { snakes, attempts, escapeOrder } = generateSnakesForShape(
+    testCase.asciiShape,
+    testCase.minSnakeLen,
+    testCase.maxSnakeLen,
+    testCase.randomSeed,
+    { ...testCase.options, generatorVersion: testCase.generatorVersion }
+  );
+  const grid = getGrid(testCase.options?.grid);
+  const problem = snakes && testCase.generatorVersion > 1
+    ? findLockedSnakeProblem(testCase.asciiShape, snakes.map(snake => snake.map(grid.toOutput)), testCase.options?.grid)
+    : null;
+  return {
+    sha256: createHash("sha256").update(JSON.stringify({ snakes, attempts, escapeOrder })).digest("hex"),
+    problem,
+  };
+}
+
+const update = process.argv.includes("--update");
+const corpus: { cases: GoldenCase[] } = JSON.parse(fs.readFileSync(corpusPath, "utf8"));
+let failures = 0;
+let recorded = 0;
+
+for (const testCase of corpus.cases) {
+  const { sha256: actual, problem } = runCase(testCase);
+
+  if (problem) {
+    failures++;
+    console.log(`INVALID   ${testCase.name}: ${problem}`);
+  } else if (!testCase.sha256) {
+    if (update) {
+      testCase.sha256 = actual;
+      recorded++;
+      console.log(`recorded  ${testCase.name}`);
+    } else {
+      failures++;
+      console.log(`missing   ${testCase.name} (run with --update to record)`);
+    }
+  } else if (testCase.sha256 !== actual) {
+    failures++;
+    console.log(`CHANGED   ${testCase.name}`);
+  } else {
+    console.log(`ok        ${testCase.name}`);
+  }
+}
+
+const covered = new Set(corpus.cases.map(c => c.generatorVersion));
+for (const version of GENERATOR_VERSIONS) {
+  if (!covered.has(version)) {
+    failures++;
+    console.log(`missing   no cases for generator version ${version}`);
+  }
+}
+
+if (recorded > 0) {
+  fs.writeFileSync(corpusPath, JSON.stringify(corpus, null, 2) + "\n");
+}
+
+console.log(`\n${corpus.cases.length} cases, ${failures} failing${recorded ? `, ${recorded} recorded` : ""}`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,215 @@
+/**
+ * Parameter sweep over the generator, for choosing defaults from data
+ *
+ *   npm run sweep                                   every shape in sweep-shapes.json
+ *   npm run sweep -- --shapes heart,logo --lengths 2-13,3-6 --seeds 10
+ *   npm run sweep -- --inner-attempts auto,25,100,500 --attempts 20 --versions 3,4
+ *   npm run sweep -- --starts mostConstrained,scanline --snake-attempts 10,30,100
+ *   npm run sweep -- --shapes square:100 --out results/big-squares
+ *
+ * Every combination of shape, length range, generator version and tuning values
+ * (maxAttempts, innerAttempts, maxSnakeAttempts, startHeuristic) runs once per seed
+ * 1..--seeds. `square:N` adds a filled NxN square to the named shapes, and `auto`
+ * leaves innerAttempts to the generator's default.
+ * Writes every run and a per-combination summary to <out>.json and the summary to
+ * <out>.csv (default sweep-results). Times are wall clock on this machine and
+ * include parsing, escape checks and scoring.
+ */
+import fs from "fs";
+import path from "path";
+import { LATEST_GENERATOR_VERSION, type GeneratorVersion, type StartHeuristic } from "@shared/schema";
+import { generateSnakesForShape } from "../server/snakeGenerator";
+
+interface SweepShape {
+  name: string;
+  asciiShape: string;
+}
+
+interface SweepConfig {
+  shape: string;
+  minSnakeLen: number;
+  maxSnakeLen: number;
+  generatorVersion: GeneratorVersion;
+  maxAttempts: number;
+  innerAttempts: number | "auto";
+  maxSnakeAttempts: number;
+  startHeuristic: StartHeuristic;
+}
+
+interface SweepRun extends SweepConfig {
+  seed: number;
+  solved: boolean;
+  attempts: number;
+  ms: number;
+  snakes: number | null;
+}
+
+interface SweepSummary extends SweepConfig {
+  runs: number;
+  solved: number;
+  successRate: number;
+  attemptsMean: number;
+  attemptsMax: number;
+  msMedian: number;
+  msP90: number;
+  msMax: number;
+  snakesMin: number | null;
+  snakesMedian: number | null;
+  snakesMax: number | null;
+  snakesMean: number | null;
+}
+
+function option(name: string, fallback: string): string {
+  const at = process.argv.indexOf(`--${name}`);
+  return at >= 0 && process.argv[at + 1] ? process.argv[at + 1] : fallback;
+}
+
+function list(name: string, fallback: string): string[] {
+  return option(name, fallback).split(",").map(item => item.trim()).filter(Boolean);
+}
+
+const corpus: { shapes: SweepShape[] } = JSON.parse(
+  fs.readFileSync(path.resolve(import.meta.dirname, "sweep-shapes.json"), "utf8")
+);
+
+function findShape(name: string): SweepShape {
+  const square = name.match(/^square:(\d+)$/);
+  if (square) {
+    const size = Number(square[1]);
+    return { name: `square ${size}x${size}`, asciiShape: Array(size).fill("#".repeat(size)).join("\n") };
+  }
+  const shape = corpus.shapes.find(s => s.name === name);
+  if (!shape) {
+    console.error(`Unknown shape "${name}"; use square:N or one of: ${corpus.shapes.map(s => s.name).join(", ")}`);
+    process.exit(1);
+  }
+  return shape;
+}
+
+const shapes = process.argv.includes("--shapes") ? list("shapes", "").map(findShape) : corpus.shapes;
+const lengths = list("lengths", "2-13,3-6,2-4").map(range => range.split("-").map(Number) as [number, number]);
+const versions = list("versions", String(LATEST_GENERATOR_VERSION)).map(Number) as GeneratorVersion[];
+const maxAttemptsValues = list("attempts", "100").map(Number);
+const innerAttemptsValues = list("inner-attempts", "auto").map(value => (value === "auto" ? "auto" : Number(value)));
+const snakeAttemptsValues = list("snake-attempts", "30").map(Number);
+const startHeuristics = list("starts", "mostConstrained") as StartHeuristic[];
+const seeds = Number(option("seeds", "5"));
+const out = option("out", "sweep-results");
+
+function percentile(values: number[], fraction: number): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function summarize(config: SweepConfig, runs: SweepRun[]): SweepSummary {
+  const counts = runs.filter(run => run.snakes !== null).map(run => run.snakes!);
+  const times = runs.map(run => run.ms);
+  const attempts = runs.map(run => run.attempts);
+
+  return {
+    ...config,
+    runs: runs.length,
+    solved: counts.length,
+    successRate: round(counts.length / runs.length),
+    attemptsMean: round(mean(attempts)),
+    attemptsMax: Math.max(...attempts),
+    msMedian: round(percentile(times, 0.5)),
+    msP90: round(percentile(times, 0.9)),
+    msMax: round(Math.max(...times)),
+    snakesMin: counts.length > 0 ? Math.min(...counts) : null,
+    snakesMedian: counts.length > 0 ? percentile(counts, 0.5) : null,
+    snakesMax: counts.length > 0 ? Math.max(...counts) : null,
+    snakesMean: counts.length > 0 ? round(mean(counts)) : null,
+  };
+}
+
+function toCsv(rows: SweepSummary[]): string {
+  const columns = Object.keys(rows[0]) as (keyof SweepSummary)[];
+  const cell = (value: unknown) => {
+    const text = value === null ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns.join(","), ...rows.map(row => columns.map(column => cell(row[column])).join(","))].join("\n") + "\n";
+}
+
+// Warm up every version so the first timed run does not pay for compilation
+for (const generatorVersion of versions) {
+  generateSnakesForShape(corpus.shapes[0].asciiShape, 2, 13, 0, { generatorVersion });
+}
+
+// Every combination, in the order the table lists them
+const configs: SweepConfig[] = [];
+for (const shape of shapes) {
+  for (const [minSnakeLen, maxSnakeLen] of lengths) {
+    for (const generatorVersion of versions) {
+      for (const maxAttempts of maxAttemptsValues) {
+        for (const innerAttempts of innerAttemptsValues) {
+          for (const maxSnakeAttempts of snakeAttemptsValues) {
+            for (const startHeuristic of startHeuristics) {
+              configs.push({ shape: shape.name, minSnakeLen, maxSnakeLen, generatorVersion, maxAttempts, innerAttempts, maxSnakeAttempts, startHeuristic });
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+const runs: SweepRun[] = [];
+const summary: SweepSummary[] = [];
+
+console.log("shape           lengths  version  max  inner  snake  start            solved  attempts  median ms  p90 ms  snakes");
+
+for (const config of configs) {
+  const { asciiShape } = shapes.find(shape => shape.name === config.shape)!;
+  const configRuns: SweepRun[] = [];
+
+  for (let seed = 1; seed <= seeds; seed++) {
+    const start = performance.now();
+    const result = generateSnakesForShape(asciiShape, config.minSnakeLen, config.maxSnakeLen, seed, {
+      generatorVersion: config.generatorVersion,
+      maxAttempts: config.maxAttempts,
+      innerAttempts: config.innerAttempts === "auto" ? undefined : config.innerAttempts,
+      maxSnakeAttempts: config.maxSnakeAttempts,
+      startHeuristic: config.startHeuristic,
+    });
+    const ms = round(performance.now() - start);
+    configRuns.push({
+      ...config,
+      seed,
+      solved: result.snakes !== null,
+      attempts: result.attempts,
+      ms,
+      snakes: result.snakes?.length ?? null,
+    });
+  }
+
+  const row = summarize(config, configRuns);
+  runs.push(...configRuns);
+  summary.push(row);
+  console.log([
+    config.shape.padEnd(16),
+    `${config.minSnakeLen}-${config.maxSnakeLen}`.padEnd(9),
+    `v${config.generatorVersion}`.padEnd(9),
+    String(config.maxAttempts).padEnd(5),
+    String(config.innerAttempts).padEnd(7),
+    String(config.maxSnakeAttempts).padEnd(7),
+    config.startHeuristic.padEnd(17),
+    `${row.solved}/${row.runs}`.padEnd(8),
+    String(row.attemptsMean).padStart(8),
+    row.msMedian.toFixed(0).padStart(11),
+    row.msP90.toFixed(0).padStart(8),
+    row.snakesMedian !== null ? `  ${row.snakesMin}-${row.snakesMax}` : "  -",
+  ].join(""));
+}
+
+fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+fs.writeFileSync(`${out}.json`, JSON.stringify({ seeds, summary, runs }, null, 2) + "\n");
+fs.writeFileSync(`${out}.csv`, toCsv(summary));
+console.log(`\n${runs.length} runs; wrote ${out}.json and ${out}.csv`);
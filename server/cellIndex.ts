@@ -0,0 +1,139 @@
+import type { Position } from "@shared/schema";
+import type { Grid } from "./grids";
+
+// Slot contents other than a tile index
+export const EMPTY_SLOT = -1;  // Board cell outside the shape, which snakes slide through
+export const WALL_SLOT = -2;
+export const OFF_BOARD = -3;   // Inside the bounding box but outside the ASCII rectangle
+
+/**
+ * Integer numbering of a board for the generator's hot paths
+ * Tiles are numbered 0..count-1 in shape order with a neighbor table in the grid's
+ * direction order. Slots number every cell of the board's bounding box in internal
+ * coordinates, so lines of sight can step through empty and wall cells as well.
+ */
+export interface CellIndex {
+  grid: Grid;
+  count: number;            // Number of tiles
+  cells: Position[];        // Internal coordinates of each tile
+  degree: number;           // Directions per cell
+  neighbors: Int32Array;    // count * degree tile indices, -1 where the neighbor is not a tile
+  ahead: Int32Array;        // count * degree: next tile along each direction past empty cells, or WALL_SLOT or OFF_BOARD
+  opposite: Int8Array;      // For each direction index, the one pointing the other way
+  headCell: Uint8Array;     // 1 for tiles that may only hold a snake head
+  minX: number;
+  minY: number;
+  spanX: number;
+  spanY: number;
+  slots: Int32Array;        // Tile index per slot, or EMPTY_SLOT, WALL_SLOT or OFF_BOARD
+}
+
+/**
+ * Number the tiles and board cells of a parsed shape
+ * `tiles` gives the tile order; walls and head cells are matched to it by position.
+ */
+export function buildCellIndex(
+  grid: Grid,
+  width: number,
+  height: number,
+  tiles: Position[],
+  walls: Position[],
+  headCells: Position[]
+): CellIndex {
+  const onBoard: Position[] = [];
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const pos = grid.fromAscii(column, row);
+      onBoard.push(pos);
+      minX = Math.min(minX, pos.x);
+      minY = Math.min(minY, pos.y);
+      maxX = Math.max(maxX, pos.x);
+      maxY = Math.max(maxY, pos.y);
+    }
+  }
+
+  const spanX = maxX - minX + 1;
+  const spanY = maxY - minY + 1;
+  const slotOf = (pos: Position) => (pos.y - minY) * spanX + (pos.x - minX);
+
+  const slots = new Int32Array(spanX * spanY).fill(OFF_BOARD);
+  onBoard.forEach(pos => {
+    slots[slotOf(pos)] = EMPTY_SLOT;
+  });
+  walls.forEach(pos => {
+    slots[slotOf(pos)] = WALL_SLOT;
+  });
+  tiles.forEach((pos, tile) => {
+    slots[slotOf(pos)] = tile;
+  });
+
+  const index: CellIndex = {
+    grid,
+    count: tiles.length,
+    cells: tiles,
+    degree: grid.directions.length,
+    neighbors: new Int32Array(tiles.length * grid.directions.length),
+    ahead: new Int32Array(tiles.length * grid.directions.length),
+    opposite: new Int8Array(grid.directions.length),
+    headCell: new Uint8Array(tiles.length),
+    minX,
+    minY,
+    spanX,
+    spanY,
+    slots,
+  };
+
+  const steps = grid.directions.map(direction => grid.steps[direction]!);
+  steps.forEach((step, d) => {
+    index.opposite[d] = steps.findIndex(other => other.x === -step.x && other.y === -step.y);
+  });
+  tiles.forEach((pos, tile) => {
+    steps.forEach((step, d) => {
+      const slot = slotAt(index, pos.x + step.x, pos.y + step.y);
+      index.neighbors[tile * index.degree + d] = slot >= 0 && slots[slot] >= 0 ? slots[slot] : -1;
+
+      let { x, y } = pos;
+      let found = EMPTY_SLOT;
+      while (found === EMPTY_SLOT) {
+        x += step.x;
+        y += step.y;
+        const next = slotAt(index, x, y);
+        found = next < 0 ? OFF_BOARD : slots[next];
+      }
+      index.ahead[tile * index.degree + d] = found;
+    });
+  });
+  headCells.forEach(pos => {
+    index.headCell[slots[slotOf(pos)]] = 1;
+  });
+
+  return index;
+}
+
+/**
+ * Find the slot of a cell, or -1 outside the bounding box
+ */
+export function slotAt(index: CellIndex, x: number, y: number): number {
+  const column = x - index.minX;
+  const row = y - index.minY;
+  if (column < 0 || column >= index.spanX || row < 0 || row >= index.spanY) return -1;
+  return row * index.spanX + column;
+}
+
+/**
+ * Find the tile at a cell, or -1 if it is not a tile
+ */
+export function tileAt(index: CellIndex, pos: Position): number {
+  const slot = slotAt(index, pos.x, pos.y);
+  return slot < 0 ? -1 : Math.max(-1, index.slots[slot]);
+}
+
+/**
+ * Count the steps from one tile to another on the same grid line
+ */
+export function stepsBetween(index: CellIndex, from: number, to: number): number {
+  const a = index.cells[from];
+  const b = index.cells[to];
+  return Math.max(Math.abs(b.x - a.x), Math.abs(b.y - a.y), Math.abs(b.x - a.x + b.y - a.y));
+}
@@ -0,0 +1,265 @@
+import {
+  generateSnakeSchema,
+  type Direction,
+  type GenerateSnakeRequest,
+  type GenerateSnakeResponse,
+} from "@shared/schema";
+import {
+  snakesToJSON,
+  measureLengths,
+  measureDirections,
+  findLockedSnakeProblem,
+  findSymmetryProblem,
+} from "./snakeGenerator";
+import { createSeed, createIntegerSeed } from "./random";
+import { pieceProblem, pieceSize } from "./pieces";
+import { getGrid } from "./grids";
+import { generatorPool, GenerationTimeoutError, type RunOptions } from "./generatorPool";
+
+/**
+ * Validate a generation request body
+ * Returns the parsed request, or an error message suitable for a 400 response
+ */
+export function parseGenerateRequest(
+  body: unknown
+): { data: GenerateSnakeRequest; error?: undefined } | { data?: undefined; error: string } {
+  const validation = generateSnakeSchema.safeParse(body);
+
+  if (!validation.success) {
+    return { error: validation.error.errors[0]?.message || "Invalid input parameters" };
+  }
+
+  // Validate that shape contains at least one snake cell
+  if (!/[#@]/.test(validation.data.asciiShape)) {
+    return { error: "Shape must contain at least one '#' or '@' character" };
+  }
+
+  const unsupported = findUnsupportedOption(validation.data);
+  if (unsupported) {
+    return { error: unsupported };
+  }
+
+  const pieceError = validation.data.pieces && findPieceProblem(validation.data);
+  if (pieceError) {
+    return { error: pieceError };
+  }
+
+  const { asciiShape, lockedSnakes, symmetry } = validation.data;
+  const lockedError = lockedSnakes && findLockedSnakeProblem(asciiShape, lockedSnakes, validation.data.grid);
+  if (lockedError) {
+    return { error: lockedError };
+  }
+
+  const symmetryError = symmetry && findSymmetryProblem(asciiShape, symmetry);
+  if (symmetryError) {
+    return { error: symmetryError };
+  }
+
+  return { data: validation.data };
+}
+
+/**
+ * Explain why the requested options cannot be combined, if they can't
+ * Version 1 is the frozen original generator and only takes shape, lengths and an integer seed.
+ */
+function findUnsupportedOption(request: GenerateSnakeRequest): string | null {
+  if (request.generatorVersion === 1) {
+    let option: string | null = null;
+    if (typeof request.randomSeed === "string") option = "string seeds";
+    else if (request.algorithm !== "greedy") option = `the "${request.algorithm}" algorithm`;
+    else if (request.targetDifficulty) option = "a target difficulty";
+    else if (request.lengthDistribution) option = "a length distribution";
+    else if (snakeCountOf(request)) option = "a snake count";
+    else if (request.pathRules) option = "path rules";
+    else if (request.pieces) option = "a piece vocabulary";
+    else if (/[X@]/.test(request.asciiShape)) option = "walls ('X') or head cells ('@')";
+    else if (request.lockedSnakes) option = "locked snakes";
+    else if (request.headRules) option = "head rules";
+    else if (request.grid) option = "grid options";
+    else if (request.symmetry) option = "symmetry";
+    else if (request.objective) option = "an objective";
+    else if (request.tuning && Object.keys(request.tuning).some(key => key !== "maxAttempts")) option = "tuning other than maxAttempts";
+
+    if (option) return `Generator version 1 does not support ${option}`;
+  }
+
+  if (request.algorithm === "exact" && request.lengthDistribution) {
+    return "The exact algorithm does not support a length distribution";
+  }
+
+  if (request.algorithm === "exact" && request.tuning) {
+    return "Tuning applies to the greedy algorithm only";
+  }
+
+  if (request.objective && request.tuning?.maxAttempts !== undefined) {
+    return "An objective compares fills until its time budget runs out, so it cannot be combined with maxAttempts";
+  }
+
+  if (request.pieces && (request.lengthDistribution || request.pathRules)) {
+    return `A piece vocabulary fixes snake shapes, so it cannot be combined with ${request.lengthDistribution ? "a length distribution" : "path rules"}`;
+  }
+
+  const grid = getGrid(request.grid);
+  if (request.pieces && grid.options.topology === "hex") {
+    return "A piece vocabulary is only supported on square grids";
+  }
+
+  if (request.symmetry) {
+    if (grid.options.topology === "hex") return "Symmetric generation is only supported on square grids";
+    if (request.lockedSnakes) return "Locked snakes cannot be combined with symmetry";
+
+    // Mirror images of pieces have to be in the vocabulary too
+    const needs = request.symmetry === "rotational" ? "rotations" : "reflections";
+    if (request.pieces && !request.pieces[needs]) {
+      return `${request.symmetry[0].toUpperCase()}${request.symmetry.slice(1)} symmetry needs piece ${needs}`;
+    }
+  }
+
+  const quotas = Object.keys(request.headRules?.quotas ?? {});
+  const offGrid = quotas.find(direction => !grid.directions.includes(direction as Direction));
+  if (offGrid) {
+    return `Snakes on a ${grid.options.topology} grid never face "${offGrid}", so it cannot have a quota`;
+  }
+
+  return null;
+}
+
+/**
+ * Check each piece of the vocabulary is a connected polyomino that fits the snake length range
+ */
+function findPieceProblem(request: GenerateSnakeRequest): string | null {
+  for (const piece of request.pieces!.pieces) {
+    const problem = pieceProblem(piece);
+    if (problem) return problem;
+
+    const size = pieceSize(piece);
+    if (size < request.minSnakeLen || size > request.maxSnakeLen) {
+      return `Piece "${piece}" has ${size} cells, outside the snake length range ${request.minSnakeLen}-${request.maxSnakeLen}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Collapse the snake count fields of a request into one inclusive range, or undefined if none are set
+ */
+function snakeCountOf(request: GenerateSnakeRequest): { min?: number; max?: number } | undefined {
+  const { minSnakes, maxSnakes, exactSnakes } = request;
+  if (exactSnakes !== undefined) return { min: exactSnakes, max: exactSnakes };
+  if (minSnakes === undefined && maxSnakes === undefined) return undefined;
+  return { min: minSnakes, max: maxSnakes };
+}
+
+/**
+ * Run a validated generation request on the worker pool and build the API response
+ * Timeouts become a failed response with timedOut set; cancellation is rethrown.
+ */
+export async function runGeneration(
+  request: GenerateSnakeRequest,
+  runOptions: Omit<RunOptions, "timeoutMs"> = {}
+): Promise<GenerateSnakeResponse> {
+  const {
+    asciiShape,
+    minSnakeLen,
+    maxSnakeLen,
+    randomSeed,
+    targetDifficulty,
+    algorithm,
+    timeoutMs,
+    generatorVersion,
+    lengthDistribution,
+  } = request;
+
+  // Settle the seed here so even a timed-out request can be replayed
+  const seed = randomSeed ?? (generatorVersion === 1 ? createIntegerSeed() : createSeed());
+
+  let result;
+  try {
+    result = await generatorPool.run(
+      {
+        asciiShape,
+        minSnakeLen,
+        maxSnakeLen,
+        randomSeed: seed,
+        options: {
+          generatorVersion,
+          algorithm,
+          targetDifficulty,
+          lengthDistribution,
+          snakeCount: snakeCountOf(request),
+          pathRules: request.pathRules,
+          pieces: request.pieces,
+          lockedSnakes: request.lockedSnakes,
+          headRules: request.headRules,
+          grid: request.grid,
+          symmetry: request.symmetry,
+          objective: request.objective,
+          ...request.tuning,  // maxAttempts, innerAttempts, maxSnakeAttempts and startHeuristic
+          // Leave the worker time to report the best fill before the request times out
+          optimizeMs: request.optimizeMs ?? Math.min(2000, Math.floor(timeoutMs / 2)),
+        },
+      },
+      { ...runOptions, timeoutMs }
+    );
+  } catch (error) {
+    if (error instanceof GenerationTimeoutError) {
+      return {
+        success: false,
+        error: `${error.message}. Try a larger timeout, a simpler shape or a wider length range.`,
+        timedOut: true,
+        seed,
+        generatorVersion,
+      };
+    }
+    throw error;
+  }
+
+  const { snakes, attempts, escapeOrder, difficulty, infeasible, reason, board, diagnostics, partial, objectiveScore, tuning } = result;
+  const grid = getGrid(request.grid);
+
+  if (snakes === null) {
+    let error = "Failed to generate snake pattern after many attempts. Try adjusting parameters or simplifying the shape.";
+    if (reason) {
+      error = reason;
+    } else if (infeasible) {
+      const constraints = snakeCountOf(request) ? "length range and snake count" : "length range";
+      error = targetDifficulty
+        ? `No solvable snake pattern within the target difficulty band exists for this shape and ${constraints}.`
+        : `No solvable snake pattern exists for this shape and ${constraints}.`;
+    } else if (difficulty !== null) {
+      error = `No pattern landed inside the target difficulty band after ${attempts} attempts (last score ${difficulty.score}). Try widening the band.`;
+    } else if (partial) {
+      error = `Failed to generate snake pattern after many attempts; the closest fill left ${partial.uncovered.length} cell${partial.uncovered.length !== 1 ? "s" : ""} uncovered. Try adjusting parameters or simplifying the shape.`;
+    }
+
+    return {
+      success: false,
+      error,
+      attempts,
+      seed,
+      generatorVersion,
+      board,
+      diagnostics,
+      partialFill: partial && { shapes: snakesToJSON(partial.snakes, grid), uncovered: partial.uncovered },
+      tuning,
+    };
+  }
+
+  // Convert to JSON format
+  const shapes = snakesToJSON(snakes, grid);
+
+  return {
+    success: true,
+    shapes,
+    attempts,
+    escapeOrder: escapeOrder?.map(index => shapes[index].type),
+    difficulty: difficulty ?? undefined,
+    seed,
+    generatorVersion,
+    lengths: measureLengths(snakes),
+    objectiveScore,
+    directions: measureDirections(snakes, grid),
+    board,
+    tuning,
+  };
+}
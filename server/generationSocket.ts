@@ -0,0 +1,95 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  generationClientMessageSchema,
+  type GenerationServerMessage,
+} from "@shared/schema";
+import { GenerationCancelledError } from "./generatorPool";
+import { parseGenerateRequest, runGeneration } from "./generation";
+
+export const GENERATION_SOCKET_PATH = "/ws/generate";
+
+function send(socket: WebSocket, message: GenerationServerMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Stream live generation progress over a WebSocket
+ * The client sends { type: "start", request } with a /api/generate body and
+ * receives progress events followed by the final result. Sending
+ * { type: "cancel" } or closing the socket stops the generation.
+ */
+export function attachGenerationSocket(httpServer: Server): void {
+  // Only claim upgrades on our path so the Vite HMR socket keeps working in dev
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    if (req.url?.split("?")[0] !== GENERATION_SOCKET_PATH) return;
+    wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (socket: WebSocket) => {
+    let controller: AbortController | null = null;
+
+    const cancel = () => {
+      controller?.abort();
+      controller = null;
+    };
+
+    socket.on("message", async (raw) => {
+      let parsed;
+      try {
+        parsed = generationClientMessageSchema.safeParse(JSON.parse(raw.toString()));
+      } catch {
+        parsed = null;
+      }
+
+      if (!parsed?.success) {
+        send(socket, { type: "result", response: { success: false, error: "Invalid message" } });
+        return;
+      }
+
+      const message = parsed.data;
+
+      if (message.type === "cancel") {
+        cancel();
+        send(socket, { type: "cancelled" });
+        return;
+      }
+
+      // Starting a new generation replaces any that is still running
+      cancel();
+
+      const { data, error } = parseGenerateRequest(message.request);
+      if (!data) {
+        send(socket, { type: "result", response: { success: false, error } });
+        return;
+      }
+
+      const current = new AbortController();
+      controller = current;
+
+      try {
+        const response = await runGeneration(data, {
+          signal: current.signal,
+          onEvent: event => send(socket, { type: "event", event }),
+        });
+        send(socket, { type: "result", response });
+      } catch (err) {
+        if (err instanceof GenerationCancelledError) return;
+
+        console.error("Error generating snakes:", err);
+        send(socket, {
+          type: "result",
+          response: { success: false, error: "Internal server error occurred while generating pattern" },
+        });
+      } finally {
+        if (controller === current) controller = null;
+      }
+    });
+
+    socket.on("close", cancel);
+  });
+}
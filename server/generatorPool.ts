@@ -0,0 +1,204 @@
+import { Worker } from "worker_threads";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { GenerationEvent } from "@shared/schema";
+import type { GenerateOptions, GenerationResult } from "./snakeGenerator";
+
+export interface GenerationRequest {
+  asciiShape: string;
+  minSnakeLen: number;
+  maxSnakeLen: number;
+  randomSeed?: string | number;
+  options: Omit<GenerateOptions, "onEvent">;  // Must survive structured cloning
+}
+
+export interface RunOptions {
+  timeoutMs: number;     // Budget for the generation itself, counted from when a worker picks it up
+  signal?: AbortSignal;  // Aborting cancels queued or running work
+  onStart?: () => void;
+  onEvent?: (event: GenerationEvent) => void;
+}
+
+// Messages exchanged with server/generatorWorker.ts
+export interface WorkerTaskMessage {
+  id: number;
+  request: GenerationRequest;
+}
+
+export type WorkerReplyMessage =
+  | { id: number; event: GenerationEvent }
+  | { id: number; result: GenerationResult }
+  | { id: number; error: string };
+
+export class GenerationTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Generation timed out after ${timeoutMs}ms`);
+    this.name = "GenerationTimeoutError";
+  }
+}
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super("Generation was cancelled");
+    this.name = "GenerationCancelledError";
+  }
+}
+
+interface PendingTask {
+  id: number;
+  request: GenerationRequest;
+  options: RunOptions;
+  resolve: (result: GenerationResult) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+  timer?: NodeJS.Timeout;
+  worker?: Worker;
+}
+
+// The production build emits the worker next to index.js. Dev runs the TypeScript
+// sources through tsx, whose loader has to be registered inside each worker
+// before the worker module is imported.
+const runningTypeScript = import.meta.url.endsWith(".ts");
+const workerPath = path.resolve(
+  import.meta.dirname,
+  runningTypeScript ? "generatorWorker.ts" : "generatorWorker.js"
+);
+
+function createWorker(): Worker {
+  if (!runningTypeScript) {
+    return new Worker(workerPath);
+  }
+
+  const workerUrl = JSON.stringify(pathToFileURL(workerPath).href);
+  return new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${workerUrl}); });`,
+    { eval: true }
+  );
+}
+
+/**
+ * Fixed-size pool of worker threads running generateSnakesForShape
+ * Generation is CPU-bound and synchronous, so it runs off the event loop.
+ * A task that times out or is cancelled terminates its worker, which is
+ * replaced on demand; this is the only way to stop a synchronous search.
+ */
+export class GeneratorPool {
+  private idle: Worker[] = [];
+  private busy = new Map<Worker, PendingTask>();
+  private queue: PendingTask[] = [];
+  private nextId = 1;
+
+  constructor(private size: number) {}
+
+  run(request: GenerationRequest, options: RunOptions): Promise<GenerationResult> {
+    const { signal } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new GenerationCancelledError());
+        return;
+      }
+
+      const task: PendingTask = {
+        id: this.nextId++,
+        request,
+        options,
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(task.timer);
+          signal?.removeEventListener("abort", onAbort);
+        },
+      };
+
+      const onAbort = () => this.abort(task, new GenerationCancelledError());
+      signal?.addEventListener("abort", onAbort);
+
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let worker = this.idle.pop();
+      if (!worker) {
+        if (this.busy.size >= this.size) return;
+        worker = this.spawn();
+      }
+
+      const task = this.queue.shift()!;
+      task.worker = worker;
+      this.busy.set(worker, task);
+
+      const { timeoutMs, onStart } = task.options;
+      task.timer = setTimeout(() => this.abort(task, new GenerationTimeoutError(timeoutMs)), timeoutMs);
+      onStart?.();
+
+      const message: WorkerTaskMessage = { id: task.id, request: task.request };
+      worker.postMessage(message);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = createWorker();
+
+    worker.on("message", (reply: WorkerReplyMessage) => {
+      const task = this.busy.get(worker);
+      if (!task || task.id !== reply.id) return;
+
+      if ("event" in reply) {
+        task.options.onEvent?.(reply.event);
+        return;
+      }
+
+      this.busy.delete(worker);
+      this.idle.push(worker);
+      task.cleanup();
+
+      if ("error" in reply) {
+        task.reject(new Error(reply.error));
+      } else {
+        task.resolve(reply.result);
+      }
+      this.dispatch();
+    });
+
+    worker.on("error", (error) => {
+      const task = this.busy.get(worker);
+      this.discard(worker);
+      if (task) {
+        task.cleanup();
+        task.reject(error);
+      }
+      this.dispatch();
+    });
+
+    return worker;
+  }
+
+  private abort(task: PendingTask, error: Error): void {
+    task.cleanup();
+
+    const queued = this.queue.indexOf(task);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else if (task.worker && this.busy.get(task.worker) === task) {
+      this.discard(task.worker);
+      task.worker.terminate();
+    } else {
+      return; // Already settled
+    }
+
+    task.reject(error);
+    this.dispatch();
+  }
+
+  private discard(worker: Worker): void {
+    this.busy.delete(worker);
+    this.idle = this.idle.filter(w => w !== worker);
+  }
+}
+
+export const generatorPool = new GeneratorPool(Math.max(1, os.cpus().length - 1));
@@ -0,0 +1,40 @@
+import { parentPort } from "worker_threads";
+import type { GenerationEvent } from "@shared/schema";
+import { generateSnakesForShape } from "./snakeGenerator";
+import type { WorkerTaskMessage, WorkerReplyMessage } from "./generatorPool";
+
+// Placements and backtracks can happen thousands of times a second, so only
+// the latest one per interval is forwarded; other events always go through
+const STEP_EVENT_INTERVAL_MS = 100;
+
+// Worker thread entry point for GeneratorPool: runs one generation per message
+parentPort!.on("message", ({ id, request }: WorkerTaskMessage) => {
+  let reply: WorkerReplyMessage;
+  let lastStepSent = 0;
+
+  const sendEvent = (event: GenerationEvent) => {
+    if (event.type === "place" || event.type === "backtrack") {
+      const now = Date.now();
+      if (now - lastStepSent < STEP_EVENT_INTERVAL_MS) return;
+      lastStepSent = now;
+    }
+
+    const message: WorkerReplyMessage = { id, event };
+    parentPort!.postMessage(message);
+  };
+
+  try {
+    const result = generateSnakesForShape(
+      request.asciiShape,
+      request.minSnakeLen,
+      request.maxSnakeLen,
+      request.randomSeed,
+      { ...request.options, onEvent: sendEvent }
+    );
+    reply = { id, result };
+  } catch (error) {
+    reply = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  parentPort!.postMessage(reply);
+});
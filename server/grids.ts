@@ -0,0 +1,114 @@
+import type { Direction, GridOptions, Position } from "@shared/schema";
+
+/**
+ * Cell topology of a board
+ * Cells are held in internal coordinates in which every direction is a fixed step,
+ * so straight lines, runs and lines of sight work the same way on every grid.
+ */
+export interface Grid {
+  options: GridOptions;
+  directions: Direction[];                      // In neighbor order
+  steps: Partial<Record<Direction, Position>>;  // Unit step towards each direction
+  fromAscii(column: number, row: number): Position;
+  toAscii(cell: Position): Position;            // Column and row in the ASCII shape, for bounds checks
+  toOutput(cell: Position): Position;           // Coordinates reported by the API
+  fromOutput(position: Position): Position;
+  directionOf(head: Position, next: Position): Direction;  // Where a head looks, away from its first body cell
+}
+
+const identity = (position: Position): Position => position;
+
+// Neighbor order matches the original generator, which keeps seeded square output stable
+export const SQUARE_GRID: Grid = {
+  options: { topology: "square", coordinates: "offset" },
+  directions: ["right", "left", "down", "up"],
+  steps: {
+    right: { x: 1, y: 0 },
+    left: { x: -1, y: 0 },
+    down: { x: 0, y: 1 },
+    up: { x: 0, y: -1 },
+  },
+  fromAscii: (column, row) => ({ x: column, y: row }),
+  toAscii: identity,
+  toOutput: identity,
+  fromOutput: identity,
+  directionOf: (head, next) => {
+    if (next.x > head.x) return "left";
+    if (next.x < head.x) return "right";
+    if (next.y > head.y) return "up";
+    return "down";
+  },
+};
+
+// Pointy-top hexes; ASCII rows are offset coordinates with odd rows shifted half a cell right.
+// Cells are held in axial coordinates (x = q, y = r).
+const HEX_DIRECTIONS: Direction[] = ["right", "left", "down-right", "up-left", "up-right", "down-left"];
+const HEX_STEPS: Partial<Record<Direction, Position>> = {
+  "right": { x: 1, y: 0 },
+  "left": { x: -1, y: 0 },
+  "down-right": { x: 0, y: 1 },
+  "up-left": { x: 0, y: -1 },
+  "up-right": { x: 1, y: -1 },
+  "down-left": { x: -1, y: 1 },
+};
+
+/**
+ * Match the step from a hex body cell to its head; cells that are not neighbors
+ * fall back to the direction whose step points most nearly the same way
+ */
+function hexDirectionOf(head: Position, next: Position): Direction {
+  const dx = head.x - next.x;
+  const dy = head.y - next.y;
+  let best = HEX_DIRECTIONS[0];
+  let bestScore = -Infinity;
+
+  for (const direction of HEX_DIRECTIONS) {
+    const step = HEX_STEPS[direction]!;
+    // Dot product in axial space with the hex metric (q and r axes at 60 degrees)
+    const score = dx * step.x + dy * step.y + (dx * step.y + dy * step.x) / 2;
+    if (score > bestScore) {
+      best = direction;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function offsetToAxial(column: number, row: number): Position {
+  return { x: column - (row - (row & 1)) / 2, y: row };
+}
+
+function axialToOffset(cell: Position): Position {
+  return { x: cell.x + (cell.y - (cell.y & 1)) / 2, y: cell.y };
+}
+
+const HEX_OFFSET_GRID: Grid = {
+  options: { topology: "hex", coordinates: "offset" },
+  directions: HEX_DIRECTIONS,
+  steps: HEX_STEPS,
+  fromAscii: offsetToAxial,
+  toAscii: axialToOffset,
+  toOutput: axialToOffset,
+  fromOutput: position => offsetToAxial(position.x, position.y),
+  directionOf: hexDirectionOf,
+};
+
+const HEX_AXIAL_GRID: Grid = {
+  options: { topology: "hex", coordinates: "axial" },
+  directions: HEX_DIRECTIONS,
+  steps: HEX_STEPS,
+  fromAscii: offsetToAxial,
+  toAscii: axialToOffset,
+  toOutput: identity,
+  fromOutput: identity,
+  directionOf: hexDirectionOf,
+};
+
+/**
+ * Pick the grid for a request's grid options (square when unset)
+ */
+export function getGrid(options?: GridOptions): Grid {
+  if (options?.topology !== "hex") return SQUARE_GRID;
+  return options.coordinates === "axial" ? HEX_AXIAL_GRID : HEX_OFFSET_GRID;
+}
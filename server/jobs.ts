@@ -0,0 +1,79 @@
+import type { Job, JobStatus, GenerationProgress } from "@shared/schema";
+import { storage, type JobUpdate } from "./storage";
+import { runGeneration } from "./generation";
+import { GenerationCancelledError } from "./generatorPool";
+
+// Most jobs that may be queued or running at once; further submissions are turned away
+export const MAX_ACTIVE_JOBS = 500;
+
+// Statuses a job can still leave; the others are final
+const ACTIVE_STATUSES: JobStatus[] = ["queued", "running"];
+
+// Abort handles for jobs that are queued or running; job state itself lives in storage
+const controllers = new Map<string, AbortController>();
+
+/**
+ * Write a job update unless the job has already finished or been cancelled
+ */
+function updateActiveJob(id: string, update: JobUpdate, from: JobStatus[] = ACTIVE_STATUSES): void {
+  storage.updateJob(id, update, from).catch((error) => {
+    console.error(`Error updating job ${id}:`, error);
+  });
+}
+
+/**
+ * Run a stored job on the generator pool in the background
+ * Status, progress and the final response are written back through storage; a
+ * cancelled job keeps that status even if the pool reports on it afterwards.
+ */
+export function startJob(job: Job): void {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  let progress: GenerationProgress | null = null;
+
+  runGeneration(job.request, {
+    signal: controller.signal,
+    onStart: () => {
+      updateActiveJob(job.id, { status: "running" }, ["queued"]);
+    },
+    onEvent: (event) => {
+      if (event.type === "attempt") {
+        progress = { attempt: event.attempt, bestCoverage: progress?.bestCoverage ?? 0 };
+      } else if (event.type === "progress") {
+        progress = { attempt: event.attempt, bestCoverage: event.bestCoverage };
+      } else {
+        return;
+      }
+      updateActiveJob(job.id, { progress });
+    },
+  })
+    .then((result) => {
+      const status: JobStatus = result.success ? "succeeded" : "failed";
+      updateActiveJob(job.id, { status, result });
+    })
+    .catch((error) => {
+      if (error instanceof GenerationCancelledError) return;
+
+      console.error(`Error running job ${job.id}:`, error);
+      updateActiveJob(job.id, {
+        status: "failed",
+        result: {
+          success: false,
+          error: "Internal server error occurred while generating pattern",
+        },
+      });
+    })
+    .finally(() => {
+      controllers.delete(job.id);
+    });
+}
+
+/**
+ * Cancel a queued or running job
+ * A job that has already finished or been cancelled comes back unchanged.
+ */
+export async function cancelJob(id: string): Promise<Job | undefined> {
+  const job = await storage.updateJob(id, { status: "cancelled" }, ACTIVE_STATUSES);
+  if (job?.status === "cancelled") controllers.get(id)?.abort();
+  return job;
+}
@@ -0,0 +1,147 @@
+import type { PieceVocabulary, Position } from "@shared/schema";
+
+// The seven one-sided tetrominoes, drawn with '#' like shapes
+export const TETROMINOES: Record<string, string> = {
+  I: "####",
+  O: "##\n##",
+  T: "###\n.#.",
+  S: ".##\n##.",
+  Z: "##.\n.##",
+  L: "#.\n#.\n##",
+  J: ".#\n.#\n##",
+};
+
+/**
+ * Read a piece as cells, resolving tetromino names
+ */
+function parsePiece(piece: string): Position[] {
+  const cells: Position[] = [];
+  (TETROMINOES[piece] ?? piece).split("\n").forEach((line, y) => {
+    for (let x = 0; x < line.length; x++) {
+      if (line[x] === "#") cells.push({ x, y });
+    }
+  });
+  return cells;
+}
+
+function isAdjacent(a: Position, b: Position): boolean {
+  return Math.abs(a.x - b.x) + Math.abs(a.y - b.y) === 1;
+}
+
+/**
+ * Explain what is wrong with a piece definition, or null if it is usable
+ */
+export function pieceProblem(piece: string): string | null {
+  const cells = parsePiece(piece);
+  if (cells.length === 0) {
+    return `Piece "${piece}" must be a tetromino name or contain at least one '#'`;
+  }
+
+  // Flood fill from the first cell; every cell must be reached
+  const reached = new Set([cells[0]]);
+  const stack = [cells[0]];
+  while (stack.length > 0) {
+    const cell = stack.pop()!;
+    cells.forEach(other => {
+      if (!reached.has(other) && isAdjacent(cell, other)) {
+        reached.add(other);
+        stack.push(other);
+      }
+    });
+  }
+
+  return reached.size === cells.length ? null : `Piece "${piece}" must be a single connected polyomino`;
+}
+
+/**
+ * Count the cells of a piece
+ */
+export function pieceSize(piece: string): number {
+  return parsePiece(piece).length;
+}
+
+function normalize(cells: Position[]): Position[] {
+  const minX = Math.min(...cells.map(c => c.x));
+  const minY = Math.min(...cells.map(c => c.y));
+  return cells
+    .map(c => ({ x: c.x - minX, y: c.y - minY }))
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+function cellsKey(cells: Position[]): string {
+  return cells.map(c => `${c.x},${c.y}`).join(";");
+}
+
+/**
+ * List the distinct orientations of a piece allowed by the vocabulary
+ */
+function orientations(cells: Position[], vocabulary: PieceVocabulary): Position[][] {
+  const result = new Map<string, Position[]>();
+  const mirrors = vocabulary.reflections ? [cells, cells.map(c => ({ x: -c.x, y: c.y }))] : [cells];
+
+  mirrors.forEach(mirrored => {
+    let turned = mirrored;
+    for (let r = 0; r < (vocabulary.rotations ? 4 : 1); r++) {
+      const normalized = normalize(turned);
+      result.set(cellsKey(normalized), normalized);
+      turned = turned.map(c => ({ x: -c.y, y: c.x }));
+    }
+  });
+
+  return Array.from(result.values());
+}
+
+/**
+ * Order a piece's cells head first
+ * A piece that can be walked end to end from the head is listed as that walk, so it slides
+ * along its body like any snake. Branching pieces such as T have no such walk; they are
+ * listed breadth first, so every cell touches an earlier one, and move as a rigid piece.
+ */
+function orderFromHead(cells: Position[], head: Position): Position[] {
+  const path = [head];
+  const seen = new Set([head]);
+
+  const extend = (): boolean => {
+    if (path.length === cells.length) return true;
+    const last = path[path.length - 1];
+    for (const other of cells) {
+      if (seen.has(other) || !isAdjacent(last, other)) continue;
+      seen.add(other);
+      path.push(other);
+      if (extend()) return true;
+      seen.delete(other);
+      path.pop();
+    }
+    return false;
+  };
+  if (extend()) return path;
+
+  const ordered = [head];
+  for (let i = 0; i < ordered.length; i++) {
+    cells.forEach(other => {
+      if (!ordered.includes(other) && isAdjacent(ordered[i], other)) ordered.push(other);
+    });
+  }
+  return ordered;
+}
+
+/**
+ * Expand a vocabulary into every placeable variant: each allowed orientation of each
+ * piece, once per possible head cell, with cells listed head first
+ * Heads are the piece's end cells (one neighbor), or any cell when it has none, like O.
+ */
+export function buildPieceVariants(vocabulary: PieceVocabulary): Position[][] {
+  const variants = new Map<string, Position[]>();
+
+  vocabulary.pieces.forEach(piece => {
+    orientations(parsePiece(piece), vocabulary).forEach(cells => {
+      const ends = cells.filter(cell => cells.filter(other => isAdjacent(cell, other)).length <= 1);
+      (ends.length > 0 ? ends : cells).forEach(head => {
+        const ordered = orderFromHead(cells, head);
+        variants.set(cellsKey(ordered), ordered);
+      });
+    });
+  });
+
+  return Array.from(variants.values());
+}
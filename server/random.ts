@@ -0,0 +1,84 @@
+import { randomBytes, randomInt } from "crypto";
+
+/**
+ * Source of uniformly distributed numbers in [0, 1)
+ * The generator only depends on this interface, so the PRNG behind it can be swapped.
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+/**
+ * Hash a string into four 32-bit words (cyrb128) for seeding
+ */
+function hashSeed(seed: string): [number, number, number, number] {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+/**
+ * Small Fast Counting generator (sfc32): 128-bit state, period of at least 2^32
+ * per stream, and passes PractRand. Seeds are strings so any seed value works.
+ */
+export class Sfc32Random implements RandomSource {
+  private a: number;
+  private b: number;
+  private c: number;
+  private d: number;
+
+  constructor(seed: string) {
+    [this.a, this.b, this.c, this.d] = hashSeed(seed);
+
+    // Discard the first outputs so similar seeds diverge
+    for (let i = 0; i < 12; i++) this.next();
+  }
+
+  next(): number {
+    const t = (((this.a + this.b) | 0) + this.d) | 0;
+    this.d = (this.d + 1) | 0;
+    this.a = this.b ^ (this.b >>> 9);
+    this.b = (this.c + (this.c << 3)) | 0;
+    this.c = (this.c << 21) | (this.c >>> 11);
+    this.c = (this.c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  }
+}
+
+/**
+ * Create a random source for a seed; numbers and their string form give the same stream
+ */
+export function createRandom(seed: string | number): RandomSource {
+  return new Sfc32Random(String(seed));
+}
+
+/**
+ * Pick a fresh seed for requests that did not supply one, so results stay reproducible
+ */
+export function createSeed(): string {
+  return randomBytes(6).toString("hex");
+}
+
+/**
+ * Pick a fresh integer seed for generator version 1, whose LCG has 233280 states
+ */
+export function createIntegerSeed(): number {
+  return randomInt(233280);
+}
@@ -1,66 +1,188 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { generateSnakeSchema, type GenerateSnakeResponse } from "@shared/schema";
-import { generateSnakesForShape, snakesToJSON } from "./snakeGenerator";
+import {
+  blockingGraphRequestSchema,
+  type GenerateSnakeResponse,
+  type BlockingGraphResponse,
+  type JobResponse,
+} from "@shared/schema";
+import { snakesToJSON, blockingGraphToDot, findGraphSnakeProblem } from "./snakeGenerator";
+import { getGrid } from "./grids";
+import { GenerationCancelledError } from "./generatorPool";
+import { parseGenerateRequest, runGeneration } from "./generation";
+import { startJob, cancelJob, MAX_ACTIVE_JOBS } from "./jobs";
+import { attachGenerationSocket } from "./generationSocket";
+import { storage } from "./storage";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Snake generation endpoint
   app.post("/api/generate", async (req, res) => {
     try {
       // Validate request body
-      const validation = generateSnakeSchema.safeParse(req.body);
-      
-      if (!validation.success) {
+      const { data, error } = parseGenerateRequest(req.body);
+
+      if (!data) {
         const response: GenerateSnakeResponse = {
           success: false,
-          error: validation.error.errors[0]?.message || "Invalid input parameters",
+          error,
         };
         return res.status(400).json(response);
       }
 
-      const { asciiShape, minSnakeLen, maxSnakeLen, randomSeed } = validation.data;
+      // Cancel the work if the client goes away before we respond
+      const controller = new AbortController();
+      res.on("close", () => {
+        if (!res.writableEnded) controller.abort();
+      });
 
-      // Validate that shape contains at least one '#' character
-      if (!asciiShape.includes('#')) {
-        const response: GenerateSnakeResponse = {
+      // Generate snakes off the event loop
+      const response = await runGeneration(data, { signal: controller.signal });
+
+      res.status(response.timedOut ? 504 : 200).json(response);
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        return; // Client disconnected, nobody to answer
+      }
+
+      console.error("Error generating snakes:", error);
+      const response: GenerateSnakeResponse = {
+        success: false,
+        error: "Internal server error occurred while generating pattern",
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  // Enqueue a generation job
+  app.post("/api/jobs", async (req, res) => {
+    const { data, error } = parseGenerateRequest(req.body);
+
+    if (!data) {
+      const response: JobResponse = {
+        success: false,
+        error,
+      };
+      return res.status(400).json(response);
+    }
+
+    if (await storage.countActiveJobs() >= MAX_ACTIVE_JOBS) {
+      const response: JobResponse = {
+        success: false,
+        error: `${MAX_ACTIVE_JOBS} jobs are already queued or running. Try again once some have finished.`,
+      };
+      return res.status(429).json(response);
+    }
+
+    const job = await storage.createJob(data);
+    startJob(job);
+
+    const response: JobResponse = {
+      success: true,
+      job,
+    };
+    res.status(202).json(response);
+  });
+
+  // Poll a generation job
+  app.get("/api/jobs/:id", async (req, res) => {
+    const job = await storage.getJob(req.params.id);
+
+    if (!job) {
+      const response: JobResponse = {
+        success: false,
+        error: "Job not found",
+      };
+      return res.status(404).json(response);
+    }
+
+    const response: JobResponse = {
+      success: true,
+      job,
+    };
+    res.json(response);
+  });
+
+  // Cancel a queued or running generation job
+  app.delete("/api/jobs/:id", async (req, res) => {
+    const job = await storage.getJob(req.params.id);
+
+    if (!job) {
+      const response: JobResponse = {
+        success: false,
+        error: "Job not found",
+      };
+      return res.status(404).json(response);
+    }
+
+    if (job.status !== "queued" && job.status !== "running") {
+      const response: JobResponse = {
+        success: false,
+        job,
+        error: `Job has already ${job.status === "cancelled" ? "been cancelled" : "finished"}`,
+      };
+      return res.status(409).json(response);
+    }
+
+    // The job may have finished since it was read
+    const cancelled = await cancelJob(job.id);
+    if (cancelled?.status !== "cancelled") {
+      const response: JobResponse = {
+        success: false,
+        job: cancelled,
+        error: "Job has already finished",
+      };
+      return res.status(409).json(response);
+    }
+
+    const response: JobResponse = {
+      success: true,
+      job: cancelled,
+    };
+    res.json(response);
+  });
+
+  // Blocking dependency graph for a set of snakes
+  app.post("/api/graph", async (req, res) => {
+    try {
+      const validation = blockingGraphRequestSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        const response: BlockingGraphResponse = {
           success: false,
-          error: "Shape must contain at least one '#' character",
+          error: validation.error.errors[0]?.message || "Invalid input parameters",
         };
         return res.status(400).json(response);
       }
 
-      // Generate snakes
-      const { snakes, attempts } = generateSnakesForShape(
-        asciiShape,
-        minSnakeLen,
-        maxSnakeLen,
-        randomSeed
-      );
-
-      if (snakes === null) {
-        const response: GenerateSnakeResponse = {
+      const { snakes, asciiShape } = validation.data;
+      const problem = findGraphSnakeProblem(snakes, asciiShape, validation.data.grid);
+      if (problem) {
+        const response: BlockingGraphResponse = {
           success: false,
-          error: "Failed to generate snake pattern after many attempts. Try adjusting parameters or simplifying the shape.",
-          attempts,
+          error: problem,
         };
-        return res.json(response);
+        return res.status(400).json(response);
       }
 
-      // Convert to JSON format
-      const shapes = snakesToJSON(snakes);
+      const grid = getGrid(validation.data.grid);
+      const shapes = snakesToJSON(snakes.map(snake => snake.map(grid.fromOutput)), grid);
+      const edges = shapes.flatMap(shape =>
+        shape.blocks.map(blocked => ({ from: shape.type, to: blocked }))
+      );
 
-      const response: GenerateSnakeResponse = {
+      const response: BlockingGraphResponse = {
         success: true,
         shapes,
-        attempts,
+        edges,
+        dot: blockingGraphToDot(shapes),
       };
 
       res.json(response);
     } catch (error) {
-      console.error("Error generating snakes:", error);
-      const response: GenerateSnakeResponse = {
+      console.error("Error building blocking graph:", error);
+      const response: BlockingGraphResponse = {
         success: false,
-        error: "Internal server error occurred while generating pattern",
+        error: "Internal server error occurred while building graph",
       };
       res.status(500).json(response);
     }
@@ -68,5 +190,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
+  // Live generation progress
+  attachGenerationSocket(httpServer);
+
   return httpServer;
 }
@@ -1,14 +1,49 @@
-import type { SnakeShape, Position, Direction } from "@shared/schema";
+import type {
+  SnakeShape,
+  Position,
+  Direction,
+  Difficulty,
+  DifficultyBand,
+  GeneratorAlgorithm,
+  GenerationEvent,
+  GeneratorVersion,
+  LengthDistribution,
+  LengthStats,
+  PathRules,
+  PieceVocabulary,
+  BoardLayout,
+  HeadRules,
+  DirectionCounts,
+  GridOptions,
+  Symmetry,
+  ShapeDiagnostic,
+  Objective,
+  StartHeuristic,
+  GeneratorTuning,
+} from "@shared/schema";
+import { LATEST_GENERATOR_VERSION } from "@shared/schema";
+import { createRandom, createSeed, createIntegerSeed, type RandomSource } from "./random";
+import { generateSnakesV1 } from "./generators/v1";
+import { buildPieceVariants } from "./pieces";
+import { getGrid, SQUARE_GRID, type Grid } from "./grids";
+import { buildCellIndex, stepsBetween, tileAt, OFF_BOARD, WALL_SLOT, type CellIndex } from "./cellIndex";
 
 interface Tile {
   x: number;
   y: number;
 }
 
-interface ShapeData {
-  tiles: Set<string>;
-  width: number;
+// The board snakes slide off: its topology, bounds and the walls that block sliding
+interface Board {
+  grid: Grid;
+  width: number;  // Bounds are in ASCII columns and rows
   height: number;
+  walls: Set<string>;
+}
+
+interface ShapeData extends Board {
+  tiles: Set<string>;
+  headCells: Set<string>;  // Tiles that must hold a snake head
 }
 
 // Convert position to string key for Set operations
@@ -24,9 +59,15 @@ function parseKey(key: string): Position {
 
 /**
  * Parse ASCII shape into tiles and dimensions
+ * Legend: '#' snake cell, '@' snake cell holding a head, 'X' wall,
+ * anything else ('.', space) empty board that snakes slide out through.
+ * With `legacyLegend` only '#' counts and '@' and 'X' are empty board, as they were
+ * when version 2 was frozen, so its seeds keep producing the same levels.
  */
-function parseShape(asciiMask: string): ShapeData {
+function parseShape(asciiMask: string, grid: Grid, legacyLegend = false): ShapeData {
   const tiles = new Set<string>();
+  const headCells = new Set<string>();
+  const walls = new Set<string>();
   const rows = asciiMask.split('\n');
   const height = rows.length;
   const width = Math.max(...rows.map(r => r.length));
@@ -34,25 +75,45 @@ function parseShape(asciiMask: string): ShapeData {
   rows.forEach((row, y) => {
     const paddedRow = row.padEnd(width, ' ');
     for (let x = 0; x < paddedRow.length; x++) {
-      if (paddedRow[x] === '#') {
-        tiles.add(posKey(x, y));
+      const cell = grid.fromAscii(x, y);
+      const key = posKey(cell.x, cell.y);
+      if (paddedRow[x] === '#' || (paddedRow[x] === '@' && !legacyLegend)) {
+        tiles.add(key);
+      }
+      if (legacyLegend) continue;
+      if (paddedRow[x] === '@') {
+        headCells.add(key);
+      } else if (paddedRow[x] === 'X') {
+        walls.add(key);
       }
     }
   });
 
-  return { tiles, width, height };
+  return { grid, tiles, headCells, walls, width, height };
+}
+
+/**
+ * Describe the board for API output
+ */
+function describeBoard(shape: ShapeData): BoardLayout {
+  return {
+    width: shape.width,
+    height: shape.height,
+    walls: Array.from(shape.walls).map(key => shape.grid.toOutput(parseKey(key))),
+    grid: shape.grid.options,
+  };
 }
 
 /**
- * Get 4-directional neighbors of a position that are inside tiles
+ * Get the neighbors of a position that are inside tiles (4 on square grids, 6 on hex grids)
  */
-function neighbors(pos: Position, tiles: Set<string>): Position[] {
+function neighbors(pos: Position, tiles: Set<string>, grid: Grid): Position[] {
   const { x, y } = pos;
-  const directions = [[1, 0], [-1, 0], [0, 1], [0, -1]];
   const result: Position[] = [];
   
-  for (const [dx, dy] of directions) {
-    const np = { x: x + dx, y: y + dy };
+  for (const direction of grid.directions) {
+    const step = grid.steps[direction]!;
+    const np = { x: x + step.x, y: y + step.y };
     if (tiles.has(posKey(np.x, np.y))) {
       result.push(np);
     }
@@ -62,27 +123,30 @@ function neighbors(pos: Position, tiles: Set<string>): Position[] {
 }
 
 /**
- * Simple seeded random number generator
+ * Check whether two cells are neighbors on the grid
  */
-class SeededRandom {
-  private seed: number;
-
-  constructor(seed: number) {
-    this.seed = seed;
-  }
+function isNeighbor(a: Position, b: Position, grid: Grid): boolean {
+  return grid.directions.some(direction => {
+    const step = grid.steps[direction]!;
+    return b.x - a.x === step.x && b.y - a.y === step.y;
+  });
+}
 
-  next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
-  }
+/**
+ * Check whether every cell of a snake is a neighbor of the one before it
+ * Such a snake slides along its own body. Branching pieces such as T cannot; they are
+ * listed head first with each cell touching an earlier one, and move as a rigid piece.
+ */
+function isPathBody(snake: Position[], grid: Grid): boolean {
+  return snake.every((pos, i) => i === 0 || isNeighbor(snake[i - 1], pos, grid));
 }
 
 /**
- * Shuffle array in place using optional seeded random
+ * Shuffle array in place
  */
-function shuffle<T>(array: T[], rng?: SeededRandom): void {
+function shuffle<T>(array: T[], rng: RandomSource): void {
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor((rng ? rng.next() : Math.random()) * (i + 1));
+    const j = Math.floor(rng.next() * (i + 1));
     [array[i], array[j]] = [array[j], array[i]];
   }
 }
@@ -92,31 +156,26 @@ function shuffle<T>(array: T[], rng?: SeededRandom): void {
  * Direction points AWAY from the tail (where the snake is "looking")
  * Returns null for single-cell snakes (no direction)
  */
-function getSnakeDirection(snake: Position[]): Direction | null {
+function getSnakeDirection(snake: Position[], grid: Grid): Direction | null {
   if (snake.length < 2) {
     return null; // Single-cell snakes have no direction
   }
   
-  const head = snake[0];
-  const next = snake[1]; // First body segment
-  
   // Direction is OPPOSITE of where the body is
   // If body is to the right, snake faces left (away from body)
-  if (next.x > head.x) return "left";
-  if (next.x < head.x) return "right";
-  if (next.y > head.y) return "up";
-  return "down";
+  return grid.directionOf(snake[0], snake[1]);
 }
 
 /**
- * Check if two snakes face each other on the same row or column
+ * Check if two snakes face each other along one grid line (a row or column on square grids)
  * Returns false if either snake is single-cell (no direction)
  */
 function snakesFaceEachOther(
   snake1: Position[],
   dir1: Direction | null,
   snake2: Position[],
-  dir2: Direction | null
+  dir2: Direction | null,
+  grid: Grid
 ): boolean {
   // Skip check if either snake has no direction (single-cell)
   if (snake1.length === 0 || snake2.length === 0) return false;
@@ -124,28 +183,303 @@ function snakesFaceEachOther(
   
   const head1 = snake1[0];
   const head2 = snake2[0];
+  const step1 = grid.steps[dir1]!;
+  const step2 = grid.steps[dir2]!;
+  
+  // They must look in opposite directions
+  if (step1.x !== -step2.x || step1.y !== -step2.y) return false;
   
-  // Check same row
-  if (head1.y === head2.y) {
-    // One facing left, one facing right
-    if ((dir1 === "left" && dir2 === "right") || (dir1 === "right" && dir2 === "left")) {
-      // Check if they're actually facing each other (not back-to-back)
-      if (dir1 === "left" && head1.x > head2.x) return true;
-      if (dir1 === "right" && head1.x < head2.x) return true;
+  // Check they're actually facing each other (not back-to-back): head2 lies ahead of head1
+  const dx = head2.x - head1.x;
+  const dy = head2.y - head1.y;
+  const steps = step1.x !== 0 ? dx / step1.x : dy / step1.y;
+  return Number.isInteger(steps) && steps > 0 && dx === steps * step1.x && dy === steps * step1.y;
+}
+
+// Draws the target length for the next greedy snake
+type LengthPicker = (rng: RandomSource) => number;
+
+// Constraints on the snakes of a fill
+interface SnakeRules {
+  minLen: number;
+  maxLen: number;
+  pickLength: LengthPicker;  // Greedy only
+  snakeCount?: { min: number; max: number };
+  path?: PathRules;  // Limits on how a snake may bend
+  pieces?: Position[][];  // Piece variants from buildPieceVariants; snakes are then only these
+  headCells?: Set<string>;  // Cells that may only hold a snake head
+  lockedSnakes?: Position[][];  // Authored snakes kept as the first snakes of every fill
+  headAllowed?: (snake: Position[]) => boolean;  // Head position and sight rules
+  headRules?: HeadRules;  // Direction quotas are read from here
+  mirror?: (pos: Position) => Position;  // Symmetry: every snake is placed with its mirror image
+  localRepair?: boolean;  // Greedy, version 3+: mend the fill around a stuck cell before backtracking
+  snakeAttempts?: number;  // Greedy: snakes grown on a cell before it counts as stuck, 30 when unset
+  start?: StartHeuristic;  // Greedy: how the next cell to cover is picked, most constrained when unset
+}
+
+/**
+ * Set up a fill holding only the locked snakes
+ */
+function startingFill(tiles: Set<string>, rules: SnakeRules, grid: Grid) {
+  const snakes = (rules.lockedSnakes ?? []).slice();
+  const unused = new Set(tiles);
+  snakes.forEach(snake => snake.forEach(pos => unused.delete(posKey(pos.x, pos.y))));
+  return { unused, snakes, directions: snakes.map(snake => getSnakeDirection(snake, grid)) };
+}
+
+const SYMMETRY_NAMES: Record<Symmetry, string> = {
+  horizontal: "left to right",
+  vertical: "top to bottom",
+  rotational: "under a half turn",
+};
+
+/**
+ * Build the cell mapping for a symmetry around the center of the shape's tiles
+ */
+function mirrorFor(tiles: Set<string>, symmetry: Symmetry): (pos: Position) => Position {
+  const cells = Array.from(tiles).map(parseKey);
+  const sumX = Math.min(...cells.map(c => c.x)) + Math.max(...cells.map(c => c.x));
+  const sumY = Math.min(...cells.map(c => c.y)) + Math.max(...cells.map(c => c.y));
+  const flipX = symmetry !== "vertical";
+  const flipY = symmetry !== "horizontal";
+
+  return pos => ({ x: flipX ? sumX - pos.x : pos.x, y: flipY ? sumY - pos.y : pos.y });
+}
+
+/**
+ * Explain which cell breaks a symmetry of the shape, or null if it holds
+ * Head cells and walls have to mirror onto head cells and walls as well.
+ */
+function symmetryProblem(shape: ShapeData, symmetry: Symmetry, mirror: (pos: Position) => Position): string | null {
+  const layers: [Set<string>, string][] = [
+    [shape.tiles, "snake cell"],
+    [shape.headCells, "head cell ('@')"],
+    [shape.walls, "wall ('X')"],
+  ];
+
+  for (const [cells, kind] of layers) {
+    for (const key of Array.from(cells)) {
+      const pos = parseKey(key);
+      const image = mirror(pos);
+      if (!cells.has(posKey(image.x, image.y))) {
+        return `The shape is not symmetric ${SYMMETRY_NAMES[symmetry]}: the ${kind} at ${formatCell(pos)} has no counterpart at ${formatCell(image)}`;
+      }
     }
   }
-  
-  // Check same column
-  if (head1.x === head2.x) {
-    // One facing up, one facing down
-    if ((dir1 === "up" && dir2 === "down") || (dir1 === "down" && dir2 === "up")) {
-      // Check if they're actually facing each other (not back-to-back)
-      if (dir1 === "up" && head1.y > head2.y) return true;
-      if (dir1 === "down" && head1.y < head2.y) return true;
+
+  return null;
+}
+
+function samePath(a: Position[], b: Position[]): boolean {
+  return a.length === b.length && a.every((pos, i) => pos.x === b[i].x && pos.y === b[i].y);
+}
+
+/**
+ * List the snakes a placement adds: the snake itself, plus its mirror image under a symmetry
+ * A snake that is its own mirror image (lying along the axis, head included) stands alone.
+ * Returns null when the mirror image would overlap or face the snake; a snake mapped onto
+ * itself reversed is refused too, since its mirror image would face the other way.
+ */
+function mirroredGroup(snake: Position[], rules: SnakeRules, grid: Grid): Position[][] | null {
+  if (!rules.mirror) return [snake];
+
+  const partner = snake.map(rules.mirror);
+  if (samePath(partner, snake)) return [snake];
+
+  const keys = new Set(snake.map(pos => posKey(pos.x, pos.y)));
+  if (partner.some(pos => keys.has(posKey(pos.x, pos.y)))) return null;
+  if (snakesFaceEachOther(snake, getSnakeDirection(snake, grid), partner, getSnakeDirection(partner, grid), grid)) {
+    return null;
+  }
+
+  return [snake, partner];
+}
+
+/**
+ * Pick lengths uniformly between minLen and maxLen
+ */
+function uniformLengthPicker(minLen: number, maxLen: number): LengthPicker {
+  return rng => minLen + Math.floor(rng.next() * (maxLen - minLen + 1));
+}
+
+/**
+ * Pick lengths from a requested distribution
+ * Bucket weights are spread evenly over the lengths in each bucket (all lengths
+ * weigh the same without buckets). A mean length target then tilts the weights
+ * exponentially, w(L) * e^(theta * L), with theta found by bisection so the
+ * expected length matches the target as closely as the range allows.
+ */
+function distributionLengthPicker(minLen: number, maxLen: number, distribution: LengthDistribution): LengthPicker {
+  const lengths: number[] = [];
+  for (let len = minLen; len <= maxLen; len++) lengths.push(len);
+
+  let weights = lengths.map(len => {
+    if (!distribution.buckets) return 1;
+    return distribution.buckets.reduce((sum, bucket) => {
+      if (len < bucket.min || len > bucket.max) return sum;
+      return sum + bucket.weight / (bucket.max - bucket.min + 1);
+    }, 0);
+  });
+
+  const { meanLength } = distribution;
+  if (meanLength !== undefined) {
+    const base = weights;
+    const tilt = (theta: number) => base.map((w, i) => w * Math.exp(theta * (lengths[i] - minLen)));
+    const meanOf = (w: number[]) => {
+      const total = w.reduce((sum, x) => sum + x, 0);
+      return w.reduce((sum, x, i) => sum + x * lengths[i], 0) / total;
+    };
+
+    let low = -20;
+    let high = 20;
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2;
+      if (meanOf(tilt(mid)) < meanLength) low = mid;
+      else high = mid;
     }
+    weights = tilt((low + high) / 2);
   }
-  
-  return false;
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return rng => {
+    let r = rng.next() * total;
+    for (let i = 0; i < lengths.length; i++) {
+      r -= weights[i];
+      if (r < 0) return lengths[i];
+    }
+    return lengths[lengths.length - 1];
+  };
+}
+
+/**
+ * Check that a snake covers head cells only with its head
+ */
+function headsAllowed(snake: Position[], headCells: Set<string> | undefined): boolean {
+  return !headCells || snake.every((pos, i) => i === 0 || !headCells.has(posKey(pos.x, pos.y)));
+}
+
+/**
+ * Build the per-snake check for head position rules: heads on the shape boundary,
+ * and a limit on how many shape cells a head may look across
+ */
+function headPlacementCheck(shape: ShapeData, headRules: HeadRules): (snake: Position[]) => boolean {
+  const { onBoundary, maxInteriorSight } = headRules;
+
+  return snake => {
+    const head = snake[0];
+    if (onBoundary && neighbors(head, shape.tiles, shape.grid).length === shape.grid.directions.length) return false;
+    if (maxInteriorSight !== undefined) {
+      const sight = lineOfSight(snake, shape)
+        .filter(cell => shape.tiles.has(posKey(cell.x, cell.y))).length;
+      if (sight > maxInteriorSight) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Count snakes by the direction their heads face
+ */
+function countDirections(directions: (Direction | null)[], grid: Grid): Record<Direction | "none", number> {
+  const counts = {} as Record<Direction | "none", number>;
+  grid.directions.forEach(direction => counts[direction] = 0);
+  counts.none = 0;
+  directions.forEach(direction => counts[direction ?? "none"]++);
+  return counts;
+}
+
+/**
+ * Check that one more snake facing `direction` stays within its quota maximum
+ */
+function quotaLeavesRoom(counts: Record<Direction | "none", number>, direction: Direction | null, headRules: HeadRules | undefined): boolean {
+  if (direction === null) return true;
+  const max = headRules?.quotas?.[direction]?.max;
+  return max === undefined || counts[direction] < max;
+}
+
+/**
+ * Check a finished fill's direction counts against the quotas and spread limit
+ */
+function directionsMeetQuotas(directions: (Direction | null)[], headRules: HeadRules | undefined, grid: Grid): boolean {
+  if (!headRules || (!headRules.quotas && headRules.maxSpread === undefined)) return true;
+
+  const counts = countDirections(directions, grid);
+  const facing = grid.directions.map(direction => counts[direction]);
+  if (headRules.maxSpread !== undefined && Math.max(...facing) - Math.min(...facing) > headRules.maxSpread) {
+    return false;
+  }
+
+  return grid.directions.every(direction => {
+    const quota = headRules.quotas?.[direction];
+    return !quota || (counts[direction] >= (quota.min ?? 0) && counts[direction] <= (quota.max ?? Infinity));
+  });
+}
+
+/**
+ * Split a path into maximal straight runs, returning each run's length in cells
+ * Consecutive runs share their corner cell, so a path with b bends has b + 1 runs.
+ */
+function straightRuns(path: Position[]): number[] {
+  const runs = [1];
+  for (let i = 1; i < path.length; i++) {
+    const turned = i >= 2 &&
+      (path[i].x - path[i - 1].x !== path[i - 1].x - path[i - 2].x ||
+       path[i].y - path[i - 1].y !== path[i - 1].y - path[i - 2].y);
+    if (turned) runs.push(1);
+    runs[runs.length - 1]++;
+  }
+  return runs;
+}
+
+/**
+ * Count the turns along a snake
+ */
+export function countBends(path: Position[]): number {
+  return straightRuns(path).length - 1;
+}
+
+function maxBendsOf(pathRules: PathRules): number {
+  return pathRules.straightOnly ? 0 : pathRules.maxBends ?? Infinity;
+}
+
+/**
+ * Check whether a snake may grow from its last cell into `next` under the path rules
+ */
+function canExtendPath(path: Position[], next: Position, pathRules: PathRules, grid: Grid): boolean {
+  const last = path[path.length - 1];
+
+  // Touching any earlier cell side by side would fold the snake onto itself
+  if (pathRules.noSelfAdjacency && path.some(p => p !== last && isNeighbor(p, next, grid))) {
+    return false;
+  }
+
+  if (path.length < 2) return true;
+  const before = path[path.length - 2];
+  if (next.x - last.x === last.x - before.x && next.y - last.y === last.y - before.y) return true;
+
+  // Turning adds a bend and closes the current straight run
+  const runs = straightRuns(path);
+  return runs.length <= maxBendsOf(pathRules) && runs[runs.length - 1] >= (pathRules.minStraightRun ?? 0);
+}
+
+/**
+ * Check a whole snake against the path rules
+ * The minimum straight run applies to every run of a bent snake, so it holds in either orientation.
+ */
+function pathAllowed(path: Position[], pathRules: PathRules, grid: Grid): boolean {
+  const runs = straightRuns(path);
+  if (runs.length - 1 > maxBendsOf(pathRules)) return false;
+  if (runs.length > 1 && runs.some(run => run < (pathRules.minStraightRun ?? 0))) return false;
+
+  if (pathRules.noSelfAdjacency) {
+    for (let i = 0; i < path.length; i++) {
+      for (let j = i + 2; j < path.length; j++) {
+        if (isNeighbor(path[i], path[j], grid)) return false;
+      }
+    }
+  }
+
+  return true;
 }
 
 /**
@@ -155,48 +489,390 @@ function snakesFaceEachOther(
 function generateGreedySnake(
   start: Position,
   tiles: Set<string>,
+  grid: Grid,
   usedGlobal: Set<string>,
-  minLen: number,
-  maxLen: number,
-  rng?: SeededRandom
+  rules: SnakeRules,
+  rng: RandomSource,
+  lengthBounds?: [number, number]
 ): Position[] | null {
+  const minLen = lengthBounds ? lengthBounds[0] : rules.minLen;
   const path: Position[] = [start];
   const usedLocal = new Set([posKey(start.x, start.y)]);
   
   // Randomly decide target length for this snake
-  const targetLen = minLen + Math.floor((rng ? rng.next() : Math.random()) * (maxLen - minLen + 1));
+  let targetLen = rules.pickLength(rng);
+  if (lengthBounds) {
+    targetLen = Math.min(lengthBounds[1], Math.max(lengthBounds[0], targetLen));
+  }
   
   while (path.length < targetLen) {
     const current = path[path.length - 1];
-    const allNeighbors = neighbors(current, tiles);
-    const candidates = allNeighbors.filter(n => {
+    const allNeighbors = neighbors(current, tiles, grid);
+    let candidates = allNeighbors.filter(n => {
       const key = posKey(n.x, n.y);
-      return !usedGlobal.has(key) && !usedLocal.has(key);
+      return !usedGlobal.has(key) && !usedLocal.has(key) && !rules.headCells?.has(key) &&
+        (!rules.path || canExtendPath(path, n, rules.path, grid));
     });
     
     if (candidates.length === 0) {
       break; // Can't extend further
     }
     
+    // Heads stay on the boundary, so walk into the cells that are hardest to reach later
+    if (rules.headRules?.onBoundary) {
+      const freeNeighbors = (pos: Position) => neighbors(pos, tiles, grid).filter(n => {
+        const key = posKey(n.x, n.y);
+        return !usedGlobal.has(key) && !usedLocal.has(key);
+      }).length;
+      const fewest = Math.min(...candidates.map(freeNeighbors));
+      candidates = candidates.filter(n => freeNeighbors(n) === fewest);
+    }
+    
     // Pick a random neighbor
-    const randomIndex = Math.floor((rng ? rng.next() : Math.random()) * candidates.length);
+    const randomIndex = Math.floor(rng.next() * candidates.length);
     const next = candidates[randomIndex];
     
     path.push(next);
     usedLocal.add(posKey(next.x, next.y));
   }
   
+  // A short final run would break the minimum straight run; end the snake at its last corner instead
+  if (rules.path?.minStraightRun) {
+    const runs = straightRuns(path);
+    if (runs.length > 1 && runs[runs.length - 1] < rules.path.minStraightRun) {
+      path.length -= runs[runs.length - 1] - 1;
+    }
+  }
+  
   // Return the snake if it meets minimum length
   return path.length >= minLen ? path : null;
 }
 
+/**
+ * List every placement of a piece variant that covers `cell` using only free cells
+ * Each placement keeps the variant's head-first order.
+ */
+function piecePlacementsThrough(
+  cell: Position,
+  free: (pos: Position) => boolean,
+  variants: Position[][],
+  lengthBounds?: [number, number]
+): Position[][] {
+  const placements: Position[][] = [];
+
+  variants.forEach(variant => {
+    if (lengthBounds && (variant.length < lengthBounds[0] || variant.length > lengthBounds[1])) return;
+
+    // Anchor each of the variant's cells on the target cell in turn
+    variant.forEach(anchor => {
+      const placed = variant.map(c => ({ x: c.x - anchor.x + cell.x, y: c.y - anchor.y + cell.y }));
+      if (placed.every(free)) placements.push(placed);
+    });
+  });
+
+  return placements;
+}
+
+/**
+ * Greedy counterpart of generateGreedySnake for a piece vocabulary: a random placement covering `start`
+ */
+function generateGreedyPiece(
+  start: Position,
+  tiles: Set<string>,
+  usedGlobal: Set<string>,
+  rules: SnakeRules,
+  rng: RandomSource,
+  lengthBounds?: [number, number]
+): Position[] | null {
+  const placements = piecePlacementsThrough(
+    start, pos => tiles.has(posKey(pos.x, pos.y)) && !usedGlobal.has(posKey(pos.x, pos.y)), rules.pieces!, lengthBounds
+  ).filter(placed => headsAllowed(placed, rules.headCells));
+  if (placements.length === 0) return null;
+
+  return placements[Math.floor(rng.next() * placements.length)];
+}
+
+/**
+ * Work out which lengths the next snake may have so that the tiles left after it
+ * can still be covered by a number of snakes inside the requested count range
+ * Returns [low, high]; low > high means no length works.
+ */
+function countLengthBounds(remaining: number, placed: number, rules: SnakeRules): [number, number] {
+  const { minLen, maxLen, snakeCount } = rules;
+  const mostAfter = snakeCount!.max - placed - 1;
+  const fewestAfter = Math.max(0, snakeCount!.min - placed - 1);
+
+  if (mostAfter < 0) return [1, 0];
+
+  const low = Math.max(minLen, remaining - mostAfter * maxLen);
+  const high = Math.min(maxLen, remaining - fewestAfter * minLen);
+  return [low, high];
+}
+
 /**
  * Count neighbors for a position to prioritize starting positions
  * Positions with fewer neighbors (corners, edges) are harder to reach
  */
-function countNeighbors(key: string, tiles: Set<string>): number {
+function countNeighbors(key: string, tiles: Set<string>, grid: Grid): number {
   const pos = parseKey(key);
-  return neighbors(pos, tiles).length;
+  return neighbors(pos, tiles, grid).length;
+}
+
+// Called by the solvers after each placement or backtrack with the current snakes and covered tile count
+type SolverStepListener = (type: "place" | "backtrack", snakes: Position[][], covered: number) => void;
+
+/**
+ * Pick the orientation of a greedy candidate that satisfies the head rules, head cells,
+ * walls and facing constraint, preferring the direction with the fewest snakes so far
+ * Returns null when neither orientation fits.
+ */
+function orientForHeadRules(
+  candidate: Position[],
+  rules: SnakeRules,
+  board: Board,
+  snakes: Position[][],
+  directions: (Direction | null)[]
+): Position[] | null {
+  const counts = countDirections(directions, board.grid);
+  // Piece variants already cover every head; a reversed piece may not start at one
+  const options = candidate.length > 1 && !rules.pieces ? [candidate, candidate.slice().reverse()] : [candidate];
+  let best: Position[] | null = null;
+  let bestCount = Infinity;
+
+  for (const option of options) {
+    const direction = getSnakeDirection(option, board.grid);
+    if (!headsAllowed(option, rules.headCells) || !rules.headAllowed!(option)) continue;
+    if (!quotaLeavesRoom(counts, direction, rules.headRules) || facesWall(option, board)) continue;
+    if (snakes.some((other, i) => snakesFaceEachOther(option, direction, other, directions[i], board.grid))) continue;
+
+    const count = counts[direction ?? "none"];
+    if (count < bestCount) {
+      best = option;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Check a greedy candidate against the snakes placed so far: walls, facing and, with head rules,
+ * its orientation (see orientForHeadRules)
+ * Returns the snake to place, or null when it does not fit.
+ */
+function fitCandidate(
+  candidate: Position[],
+  rules: SnakeRules,
+  board: Board,
+  snakes: Position[][],
+  directions: (Direction | null)[]
+): Position[] | null {
+  // With head rules either end of a snake may become the head; steer towards the least used direction
+  if (rules.headRules) {
+    return orientForHeadRules(candidate, rules, board, snakes, directions);
+  }
+
+  // Check direction constraint
+  const direction = getSnakeDirection(candidate, board.grid);
+  if (facesWall(candidate, board)) return null;
+  if (snakes.some((other, i) => snakesFaceEachOther(candidate, direction, other, directions[i], board.grid))) return null;
+  return candidate;
+}
+
+/**
+ * Fit several snakes in turn, each checked against the others and the ones before it
+ * Returns the placed snakes (possibly reoriented) or null if any does not fit.
+ */
+function fitAll(
+  candidates: Position[][],
+  rules: SnakeRules,
+  board: Board,
+  snakes: Position[][],
+  directions: (Direction | null)[]
+): Position[][] | null {
+  const others = snakes.slice();
+  const otherDirections = directions.slice();
+  const placed: Position[][] = [];
+
+  for (const candidate of candidates) {
+    const snake = fitCandidate(candidate, rules, board, others, otherDirections);
+    if (!snake) return null;
+    placed.push(snake);
+    others.push(snake);
+    otherDirections.push(getSnakeDirection(snake, board.grid));
+  }
+
+  return placed;
+}
+
+// Neighborhood repair budget: each round rips up one more ring of snakes around the stuck cell
+const REPAIR_ROUNDS = 3;
+const REFILL_TRIES = 6;
+const REPAIR_RADIUS = 2;  // Steps through uncovered cells included with the stuck cell
+
+/**
+ * Mend a greedy fill in which no snake can be placed on `stuck`, instead of backtracking
+ * The cell is first absorbed into a neighboring snake by extending or splitting it; failing
+ * that, the snakes around it are ripped up and the neighborhood is re-filled (large-neighborhood
+ * search), widening it each round. Locked snakes are never changed.
+ * Updates the fill in place and returns true on success.
+ */
+function repairStuckCell(
+  stuck: Position,
+  tiles: Set<string>,
+  board: Board,
+  rules: SnakeRules,
+  rng: RandomSource,
+  snakes: Position[][],
+  directions: (Direction | null)[],
+  unused: Set<string>
+): boolean {
+  const { grid } = board;
+  const locked = rules.lockedSnakes?.length ?? 0;
+  const owner = new Map<string, number>();
+  snakes.forEach((snake, index) => {
+    if (index >= locked) snake.forEach(pos => owner.set(posKey(pos.x, pos.y), index));
+  });
+
+  // Piece shapes are fixed, so only snakes can grow into the cell
+  if (!rules.pieces && absorbCell(stuck, tiles, board, rules, rng, snakes, directions, owner)) {
+    unused.delete(posKey(stuck.x, stuck.y));
+    return true;
+  }
+
+  // Uncovered cells within a few steps of the stuck one
+  const region = new Set([posKey(stuck.x, stuck.y)]);
+  let frontier = [stuck];
+  for (let step = 0; step < REPAIR_RADIUS; step++) {
+    frontier = frontier.flatMap(pos => neighbors(pos, unused, grid)).filter(n => {
+      const key = posKey(n.x, n.y);
+      if (region.has(key)) return false;
+      region.add(key);
+      return true;
+    });
+  }
+
+  const ripped = new Set<number>();
+  for (let round = 0; round < REPAIR_ROUNDS; round++) {
+    // Widen the neighborhood by the snakes touching it
+    const free = new Set(region);
+    ripped.forEach(index => snakes[index].forEach(pos => free.add(posKey(pos.x, pos.y))));
+    const before = ripped.size;
+    free.forEach(key => {
+      neighbors(parseKey(key), tiles, grid).forEach(n => {
+        const index = owner.get(posKey(n.x, n.y));
+        if (index !== undefined) ripped.add(index);
+      });
+    });
+    if (ripped.size === before) break;
+    ripped.forEach(index => snakes[index].forEach(pos => free.add(posKey(pos.x, pos.y))));
+
+    const keep = snakes.filter((_, i) => !ripped.has(i));
+    const keepDirections = directions.filter((_, i) => !ripped.has(i));
+    for (let tryIndex = 0; tryIndex < REFILL_TRIES; tryIndex++) {
+      const refill = fillRegion(free, board, rules, rng, keep, keepDirections);
+      if (!refill) continue;
+
+      snakes.splice(0, snakes.length, ...keep, ...refill);
+      directions.splice(0, directions.length, ...keepDirections, ...refill.map(snake => getSnakeDirection(snake, grid)));
+      region.forEach(key => unused.delete(key));
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Cover `stuck` by growing a neighboring snake into it: the cell becomes the new tail after
+ * the neighbor or the new head before it, splitting off the rest of the snake when the
+ * neighbor is not an end
+ */
+function absorbCell(
+  stuck: Position,
+  tiles: Set<string>,
+  board: Board,
+  rules: SnakeRules,
+  rng: RandomSource,
+  snakes: Position[][],
+  directions: (Direction | null)[],
+  owner: Map<string, number>
+): boolean {
+  const { grid } = board;
+  const options: { index: number; parts: Position[][] }[] = [];
+
+  for (const n of neighbors(stuck, tiles, grid)) {
+    const index = owner.get(posKey(n.x, n.y));
+    if (index === undefined) continue;
+
+    const snake = snakes[index];
+    const at = snake.findIndex(pos => pos.x === n.x && pos.y === n.y);
+    options.push({ index, parts: [snake.slice(0, at + 1).concat([stuck]), snake.slice(at + 1)] });
+    options.push({ index, parts: [snake.slice(0, at), [stuck].concat(snake.slice(at))] });
+  }
+  shuffle(options, rng);
+
+  for (const { index, parts: split } of options) {
+    const parts = split.filter(part => part.length > 0);
+    if (parts.some(part => part.length < rules.minLen || part.length > rules.maxLen)) continue;
+    if (rules.snakeCount && snakes.length - 1 + parts.length > rules.snakeCount.max) continue;
+    if (parts.some(part => !headsAllowed(part, rules.headCells))) continue;
+    if (rules.path && parts.some(part => !pathAllowed(part, rules.path!, grid))) continue;
+
+    const placed = fitAll(
+      parts, rules, board,
+      snakes.filter((_, i) => i !== index),
+      directions.filter((_, i) => i !== index)
+    );
+    if (!placed) continue;
+
+    snakes.splice(index, 1, ...placed);
+    directions.splice(index, 1, ...placed.map(snake => getSnakeDirection(snake, grid)));
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Greedily cover exactly the `free` cells with new snakes that fit beside the kept ones,
+ * starting each snake from the free cell with the fewest free neighbors
+ * Returns the new snakes, or null when some cell could not be covered.
+ */
+function fillRegion(
+  free: Set<string>,
+  board: Board,
+  rules: SnakeRules,
+  rng: RandomSource,
+  keep: Position[][],
+  keepDirections: (Direction | null)[]
+): Position[][] | null {
+  const { grid } = board;
+  const remaining = new Set(free);
+  const snakes = keep.slice();
+  const directions = keepDirections.slice();
+  const none = new Set<string>();
+
+  while (remaining.size > 0) {
+    if (rules.snakeCount && snakes.length >= rules.snakeCount.max) return null;
+
+    const start = mostConstrainedCell(remaining, grid);
+    let snake: Position[] | null = null;
+    for (let tryIndex = 0; tryIndex < 10 && !snake; tryIndex++) {
+      // Only the free cells count as tiles, so snakes cannot leave the neighborhood
+      const candidate = rules.pieces
+        ? generateGreedyPiece(start, remaining, none, rules, rng)
+        : generateGreedySnake(start, remaining, grid, none, rules, rng);
+      snake = candidate && fitCandidate(candidate, rules, board, snakes, directions);
+    }
+    if (!snake) return null;
+
+    snake.forEach(pos => remaining.delete(posKey(pos.x, pos.y)));
+    snakes.push(snake);
+    directions.push(getSnakeDirection(snake, grid));
+  }
+
+  return snakes.slice(keep.length);
 }
 
 /**
@@ -205,28 +881,35 @@ function countNeighbors(key: string, tiles: Set<string>): number {
  */
 function solveWithGreedy(
   tiles: Set<string>,
-  minLen: number,
-  maxLen: number,
-  rng?: SeededRandom,
-  maxAttempts: number = 50
+  board: Board,
+  rules: SnakeRules,
+  rng: RandomSource,
+  maxAttempts: number = 50,
+  onStep?: SolverStepListener
 ): Position[][] | null {
-  const unused = new Set(tiles);
-  const snakes: Position[][] = [];
-  const directions: (Direction | null)[] = [];
+  const { unused, snakes, directions } = startingFill(tiles, rules, board.grid);
+  const placements: number[] = [];  // Snakes added by each placement, so a mirrored pair is undone together
+  const order = rules.start && rules.start !== "mostConstrained"
+    ? new Map(startOrder(tiles, rules.start, board.grid, rng).map((pos, rank) => [posKey(pos.x, pos.y), rank]))
+    : null;
   let attempts = 0;
   
   while (unused.size > 0 && attempts < maxAttempts) {
     attempts++;
     
-    // Find the starting position with fewest neighbors (corners/edges first)
     const unusedArray = Array.from(unused);
-    unusedArray.sort((a, b) => {
-      const aNeighbors = countNeighbors(a, tiles);
-      const bNeighbors = countNeighbors(b, tiles);
-      return aNeighbors - bNeighbors;
-    });
+    if (order) {
+      // Start from the first uncovered cell in the heuristic's order
+      unusedArray.sort((a, b) => order.get(a)! - order.get(b)!);
+    } else {
+      // Find the starting position with fewest neighbors (corners/edges first)
+      unusedArray.sort((a, b) => {
+        const aNeighbors = countNeighbors(a, tiles, board.grid);
+        const bNeighbors = countNeighbors(b, tiles, board.grid);
+        return aNeighbors - bNeighbors;
+      });
+    }
     
-    // Always start from the most constrained position (fewest neighbors)
     const startKey = unusedArray[0];
     const start = parseKey(startKey);
     
@@ -234,129 +917,2059 @@ function solveWithGreedy(
     const usedGlobal = new Set(tiles);
     unused.forEach(key => usedGlobal.delete(key));
     
+    // Steer lengths so the remaining tiles still fit the snake count budget
+    // (the budget assumes one snake per placement, so mirrored pairs are only checked once complete)
+    const lengthBounds = rules.snakeCount && !rules.mirror
+      ? countLengthBounds(unused.size, snakes.length, rules)
+      : undefined;
+    
     // Try to generate a snake a few times
     let snake: Position[] | null = null;
     let attempts2 = 0;
-    const maxSnakeAttempts = 30;
+    const maxSnakeAttempts = lengthBounds && lengthBounds[0] > lengthBounds[1] ? 0 : rules.snakeAttempts ?? 30;
     
     while (attempts2 < maxSnakeAttempts && !snake) {
       attempts2++;
-      const candidate = generateGreedySnake(start, tiles, usedGlobal, minLen, maxLen, rng);
+      const candidate = rules.pieces
+        ? generateGreedyPiece(start, tiles, usedGlobal, rules, rng, lengthBounds)
+        : generateGreedySnake(start, tiles, board.grid, usedGlobal, rules, rng, lengthBounds);
       
       if (!candidate) continue;
+      snake = fitCandidate(candidate, rules, board, snakes, directions);
       
-      // Check direction constraint
-      const newDirection = getSnakeDirection(candidate);
-      let violatesDirection = false;
-      
-      for (let i = 0; i < snakes.length; i++) {
-        if (snakesFaceEachOther(candidate, newDirection, snakes[i], directions[i])) {
-          violatesDirection = true;
-          break;
-        }
-      }
-      
-      if (!violatesDirection) {
-        snake = candidate;
+      // Under a symmetry its mirror image has to fit beside it too
+      if (snake && !mirroredGroup(snake, rules, board.grid)) {
+        snake = null;
       }
     }
     
+    // Version 3 mends the fill around the stuck cell before giving up any placements
+    if (!snake && rules.localRepair && !rules.mirror && repairStuckCell(start, tiles, board, rules, rng, snakes, directions, unused)) {
+      // Snakes may have been split or replaced, so each one now undoes on its own
+      placements.splice(0, placements.length, ...snakes.slice(rules.lockedSnakes?.length ?? 0).map(() => 1));
+      onStep?.("place", snakes, tiles.size - unused.size);
+      continue;
+    }
+    
     if (!snake) {
-      // Can't place a valid snake, backtrack last snake if we have any
-      if (snakes.length > 0) {
-        const lastSnake = snakes.pop()!;
-        directions.pop();
-        lastSnake.forEach(pos => unused.add(posKey(pos.x, pos.y)));
+      // Can't place a valid snake, backtrack the last placement if we have any besides the locked snakes
+      if (placements.length > 0) {
+        const lastSnakes = snakes.splice(-placements.pop()!);
+        directions.splice(-lastSnakes.length);
+        lastSnakes.forEach(lastSnake => lastSnake.forEach(pos => unused.add(posKey(pos.x, pos.y))));
+        onStep?.("backtrack", snakes, tiles.size - unused.size);
       } else {
         return null; // Failed to find solution
       }
       continue;
     }
     
-    // Place the snake
-    const snakeKeys = snake.map(pos => posKey(pos.x, pos.y));
-    snakeKeys.forEach(key => unused.delete(key));
-    snakes.push(snake);
-    directions.push(getSnakeDirection(snake));
+    // Place the snake, along with its mirror image under a symmetry
+    const group = mirroredGroup(snake, rules, board.grid)!;
+    group.forEach(placed => {
+      placed.forEach(pos => unused.delete(posKey(pos.x, pos.y)));
+      snakes.push(placed);
+      directions.push(getSnakeDirection(placed, board.grid));
+    });
+    placements.push(group.length);
+    onStep?.("place", snakes, tiles.size - unused.size);
   }
   
   // Success if all tiles are used
   return unused.size === 0 ? snakes : null;
 }
 
-/**
- * Generate snakes for a shape using optimized greedy algorithm
- */
-export function generateSnakesForShape(
-  asciiShape: string,
-  minSnakeLen: number,
-  maxSnakeLen: number,
-  randomSeed?: number,
-  maxAttempts: number = 100
-): { snakes: Position[][] | null; attempts: number } {
-  const { tiles } = parseShape(asciiShape);
+// A snake placed by the index-based solver (version 4)
+interface PlacedSnake {
+  cells: number[];            // Tile indices, head first
+  positions: Position[];
+  direction: number;          // Index into grid.directions, -1 for single cells
+  lookouts: number[];         // Tiles it looks ahead from: the head, or every cell of a rigid piece
+  id: number;                 // Stored in the owner table
+  locked: boolean;
+  blockers: PlacedSnake[];    // Snakes in its line of sight, which have to leave first
+  watchers: PlacedSnake[];    // Snakes whose line of sight crosses it
+  rank: number;               // Position in a topological order of the blocking graph
+  mark: number;               // Search stamp
+}
 
-  // Create request-scoped random number generator if seed provided
-  const rng = randomSeed !== undefined ? new SeededRandom(randomSeed) : undefined;
+// A snake looking along a grid line from one of its tiles
+interface LineWatch {
+  snake: PlacedSnake;
+  along: number;              // How far along the line that tile lies
+}
 
-  // Scale attempts based on shape complexity
+// Edges a snake would add to the blocking graph
+interface SnakeLinks {
+  blockers: PlacedSnake[];
+  watchers: PlacedSnake[];
+}
+
+/**
+ * Greedy fill state over a CellIndex that keeps the blocking graph of its snakes acyclic
+ * Placing a snake adds edges from the snakes in its line of sight and to the snakes looking
+ * across its tiles; a snake that would close a cycle does not fit, so a complete fill can
+ * always be cleared. Ranks keep a topological order of the graph up to date, so the cycle
+ * check and reordering only search between the ranks involved (Pearce and Kelly's dynamic
+ * topological sort). Uncovered tiles sit in buckets by their number of uncovered neighbors,
+ * which makes the most constrained tile a constant-time lookup.
+ */
+class IndexedFill {
+  readonly snakes: PlacedSnake[] = [];  // In placement order
+  readonly paths: Position[][] = [];    // Positions of `snakes`, for solver step listeners
+  readonly covered: Uint8Array;
+  readonly owner: Int32Array;           // Snake id per tile, -1 when uncovered
+  readonly counts: Record<Direction | "none", number>;
+  uncovered: number;
+  private readonly byId: PlacedSnake[] = [];
+  private readonly lineOf: Int32Array;  // Per tile and direction, the grid line through it that way
+  private readonly along: Int32Array;   // Per tile and direction, how far along that line it lies
+  private readonly lineHeads: LineWatch[][];  // Snakes looking along each line, in order along it
+  private readonly freeNeighbors: Int8Array;
+  private readonly next: Int32Array;    // Doubly linked bucket lists of uncovered tiles
+  private readonly prev: Int32Array;
+  private readonly buckets: Int32Array;
+  private readonly startOrder: Int32Array | null = null;  // Tiles in start heuristic order, unless most constrained
+  private readonly startRank: Int32Array | null = null;   // Each tile's position in startOrder
+  private startCursor = 0;              // No uncovered tile comes before it in startOrder
+  private readonly ranks = new Set<number>();  // Ranks in use, which are kept distinct
+  private topRank = 0;                 // Every rank lies between these two
+  private bottomRank = 0;
+  private stamp = 0;
+
+  constructor(readonly index: CellIndex, readonly rules: SnakeRules, readonly rng: RandomSource) {
+    const { count, degree, neighbors } = index;
+    this.covered = new Uint8Array(count);
+    this.owner = new Int32Array(count).fill(-1);
+    this.lineOf = new Int32Array(count * degree);
+    this.along = new Int32Array(count * degree);
+    let lines = 0;
+    index.grid.directions.forEach((direction, d) => {
+      // Cells on one line share the cross product of their position with the step
+      const step = index.grid.steps[direction]!;
+      const key = (pos: Position) => step.x * pos.y - step.y * pos.x;
+      let lowest = Infinity;
+      let highest = -Infinity;
+      index.cells.forEach(pos => {
+        lowest = Math.min(lowest, key(pos));
+        highest = Math.max(highest, key(pos));
+      });
+      index.cells.forEach((pos, tile) => {
+        this.lineOf[tile * degree + d] = lines + key(pos) - lowest;
+        this.along[tile * degree + d] = step.x * pos.x + step.y * pos.y;
+      });
+      lines += highest - lowest + 1;
+    });
+    this.lineHeads = Array.from({ length: lines }, () => []);
+    this.freeNeighbors = new Int8Array(count);
+    this.next = new Int32Array(count);
+    this.prev = new Int32Array(count);
+    this.buckets = new Int32Array(degree + 1).fill(-1);
+    this.counts = countDirections([], index.grid);
+    this.uncovered = count;
+
+    // Link in reverse so each bucket starts from the first tile in shape order
+    for (let tile = count - 1; tile >= 0; tile--) {
+      for (let d = 0; d < degree; d++) {
+        if (neighbors[tile * degree + d] >= 0) this.freeNeighbors[tile]++;
+      }
+      this.link(tile);
+    }
+
+    if (rules.start && rules.start !== "mostConstrained") {
+      const tiles = new Set(index.cells.map(pos => posKey(pos.x, pos.y)));
+      this.startOrder = Int32Array.from(startOrder(tiles, rules.start, index.grid, rng), pos => tileAt(index, pos));
+      this.startRank = new Int32Array(count);
+      this.startOrder.forEach((tile, rank) => {
+        this.startRank![tile] = rank;
+      });
+    }
+
+    // Locked snakes were validated up front; they go in whatever their blocking graph looks like
+    (rules.lockedSnakes ?? []).forEach(snake => {
+      const cells = snake.map(pos => tileAt(index, pos));
+      this.place(cells, this.linksOf(cells, false) ?? { blockers: [], watchers: [] }, true);
+    });
+  }
+
+  /**
+   * The uncovered tile with the fewest uncovered neighbors, most recently changed first
+   */
+  mostConstrained(): number {
+    for (let bucket = 0; ; bucket++) {
+      if (this.buckets[bucket] >= 0) return this.buckets[bucket];
+    }
+  }
+
+  /**
+   * The uncovered tile to cover next under the rules' start heuristic
+   */
+  nextStart(): number {
+    if (!this.startOrder) return this.mostConstrained();
+    while (this.covered[this.startOrder[this.startCursor]]) this.startCursor++;
+    return this.startOrder[this.startCursor];
+  }
+
+  snakeAt(tile: number): PlacedSnake | null {
+    return this.owner[tile] >= 0 ? this.byId[this.owner[tile]] : null;
+  }
+
+  /**
+   * Check a snake in the given orientation against head cells, head rules, quotas and the
+   * blocking graph; returns the edges it would add, or null if it does not fit
+   */
+  fits(cells: number[]): SnakeLinks | null {
+    const { index, rules } = this;
+    if (cells.some((tile, i) => i > 0 && index.headCell[tile])) return null;
+
+    const positions = cells.map(tile => index.cells[tile]);
+    if (rules.headAllowed && !rules.headAllowed(positions)) return null;
+    if (!quotaLeavesRoom(this.counts, getSnakeDirection(positions, index.grid), rules.headRules)) return null;
+
+    return this.linksOf(cells, true);
+  }
+
+  /**
+   * Pick an orientation of a candidate that fits: as grown, or reversed
+   * With head rules the direction with the fewest snakes so far wins. Piece variants
+   * already list every head a piece may have, and reversing one can put a cell that
+   * does not touch the head second, so pieces are only tried as grown.
+   */
+  orient(candidate: number[]): { cells: number[]; links: SnakeLinks } | null {
+    const options = candidate.length > 1 && !this.rules.pieces ? [candidate, candidate.slice().reverse()] : [candidate];
+    let best: { cells: number[]; links: SnakeLinks } | null = null;
+    let bestCount = Infinity;
+
+    for (const cells of options) {
+      const links = this.fits(cells);
+      if (!links) continue;
+      if (!this.rules.headRules) return { cells, links };
+
+      const direction = getSnakeDirection(cells.map(tile => this.index.cells[tile]), this.index.grid);
+      const count = this.counts[direction ?? "none"];
+      if (count < bestCount) {
+        best = { cells, links };
+        bestCount = count;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Cover a snake's tiles and add it to the blocking graph with the edges `fits` found
+   */
+  place(cells: number[], links: SnakeLinks, locked = false): PlacedSnake {
+    const positions = cells.map(tile => this.index.cells[tile]);
+    const direction = getSnakeDirection(positions, this.index.grid);
+    const snake: PlacedSnake = {
+      cells,
+      positions,
+      direction: direction === null ? -1 : this.index.grid.directions.indexOf(direction),
+      lookouts: [],
+      id: this.byId.length,
+      locked,
+      blockers: [],
+      watchers: [],
+      rank: 0,
+      mark: 0,
+    };
+    if (snake.direction >= 0) snake.lookouts = this.isPath(cells) ? [cells[0]] : cells;
+    this.byId.push(snake);
+    this.insert(snake, links);
+    return snake;
+  }
+
+  /**
+   * Put a removed snake back, once everything placed since it was removed is gone again
+   */
+  restore(snake: PlacedSnake): void {
+    this.insert(snake, this.linksOf(snake.cells, false)!);
+  }
+
+  remove(snake: PlacedSnake): void {
+    const at = this.snakes[this.snakes.length - 1] === snake ? this.snakes.length - 1 : this.snakes.indexOf(snake);
+    this.snakes.splice(at, 1);
+    this.paths.splice(at, 1);
+    snake.cells.forEach(tile => {
+      this.owner[tile] = -1;
+      this.setCovered(tile, false);
+    });
+    this.counts[snake.direction >= 0 ? this.index.grid.directions[snake.direction] : "none"]--;
+
+    snake.blockers.forEach(blocker => blocker.watchers.splice(blocker.watchers.indexOf(snake), 1));
+    snake.watchers.forEach(watcher => watcher.blockers.splice(watcher.blockers.indexOf(snake), 1));
+    snake.lookouts.forEach(tile => {
+      const heads = this.lineHeads[this.lineOf[tile * this.index.degree + snake.direction]];
+      heads.splice(heads.findIndex(watch => watch.snake === snake), 1);
+    });
+    this.ranks.delete(snake.rank);
+    snake.blockers = [];
+    snake.watchers = [];
+  }
+
+  private insert(snake: PlacedSnake, links: SnakeLinks): void {
+    snake.cells.forEach(tile => {
+      this.owner[tile] = snake.id;
+      this.setCovered(tile, true);
+    });
+    this.counts[snake.direction >= 0 ? this.index.grid.directions[snake.direction] : "none"]++;
+    this.snakes.push(snake);
+    this.paths.push(snake.positions);
+
+    snake.blockers = links.blockers;
+    snake.watchers = links.watchers;
+    snake.lookouts.forEach(tile => {
+      const slot = tile * this.index.degree + snake.direction;
+      const heads = this.lineHeads[this.lineOf[slot]];
+      let at = heads.length;
+      while (at > 0 && heads[at - 1].along > this.along[slot]) at--;
+      heads.splice(at, 0, { snake, along: this.along[slot] });
+    });
+    links.blockers.forEach(blocker => blocker.watchers.push(snake));
+    links.watchers.forEach(watcher => watcher.blockers.push(snake));
+    this.rankNew(snake);
+  }
+
+  /**
+   * Find the edges a snake would add: the snakes its path of travel crosses, and the snakes
+   * whose paths cross its tiles. Null if it looks into a wall or at its own body, or
+   * (with `acyclic`) if a watcher already has to wait for one of its blockers.
+   * A rigid piece looks ahead from every cell, past its own.
+   */
+  private linksOf(cells: number[], acyclic: boolean): SnakeLinks | null {
+    const { index } = this;
+    const { grid, ahead, degree } = index;
+    const blockers: PlacedSnake[] = [];
+    const watchers: PlacedSnake[] = [];
+
+    const direction = cells.length > 1 ? grid.directions.indexOf(grid.directionOf(index.cells[cells[0]], index.cells[cells[1]])) : -1;
+    if (direction >= 0) {
+      const stamp = ++this.stamp;
+      const rigid = !this.isPath(cells);
+      for (const lookout of rigid ? cells : [cells[0]]) {
+        for (let tile = ahead[lookout * degree + direction]; tile !== OFF_BOARD; tile = ahead[tile * degree + direction]) {
+          if (tile === WALL_SLOT) return null;
+
+          if (!this.covered[tile]) {
+            // Its own body is in the way until that segment has moved on
+            const segment = rigid ? -1 : cells.indexOf(tile);
+            if (segment >= 0 && stepsBetween(index, cells[0], tile) <= cells.length - 1 - segment) return null;
+            continue;
+          }
+
+          const blocker = this.byId[this.owner[tile]];
+          if (blocker.mark !== stamp) {
+            blocker.mark = stamp;
+            blockers.push(blocker);
+          }
+        }
+      }
+    }
+
+    // Snakes further back along each line through its tiles look across it
+    const seen = ++this.stamp;
+    cells.forEach(tile => {
+      for (let d = 0; d < degree; d++) {
+        const slot = tile * degree + d;
+        for (const { snake: watcher, along } of this.lineHeads[this.lineOf[slot]]) {
+          if (along >= this.along[slot]) break;
+          if (watcher.mark === seen) continue;
+          watcher.mark = seen;
+          watchers.push(watcher);
+        }
+      }
+    });
+
+    if (acyclic && this.reaches(watchers, blockers)) return null;
+    return { blockers, watchers };
+  }
+
+  /**
+   * Check whether every tile of a snake neighbors the one before it, as isPathBody does
+   */
+  private isPath(cells: number[]): boolean {
+    const { degree, neighbors } = this.index;
+    return cells.every((tile, i) => {
+      if (i === 0) return true;
+      for (let d = 0; d < degree; d++) {
+        if (neighbors[cells[i - 1] * degree + d] === tile) return true;
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Check whether any of `targets` can only leave after one of `from`
+   * Only snakes ranked up to the last target need searching.
+   */
+  private reaches(from: PlacedSnake[], targets: PlacedSnake[]): boolean {
+    if (from.length === 0 || targets.length === 0) return false;
+    const bound = Math.max(...targets.map(target => target.rank));
+    const stamp = ++this.stamp;
+    targets.forEach(target => {
+      target.mark = stamp;
+    });
+
+    const searched = ++this.stamp;
+    const stack = from.filter(snake => snake.rank <= bound);
+    while (stack.length > 0) {
+      const snake = stack.pop()!;
+      if (snake.mark === stamp) return true;
+      if (snake.mark === searched) continue;
+      snake.mark = searched;
+      snake.watchers.forEach(watcher => {
+        if (watcher.rank <= bound && watcher.mark !== searched) stack.push(watcher);
+      });
+    }
+    return false;
+  }
+
+  /**
+   * Give a newly linked snake a rank after its blockers and before its watchers, first
+   * moving the snakes between them that are ordered the wrong way round
+   */
+  private rankNew(snake: PlacedSnake): void {
+    const { blockers, watchers } = snake;
+    if (watchers.length === 0) {
+      snake.rank = ++this.topRank;
+      this.ranks.add(snake.rank);
+      return;
+    }
+
+    const lower = Math.min(...watchers.map(watcher => watcher.rank));
+    const upper = blockers.length > 0 ? Math.max(...blockers.map(blocker => blocker.rank)) : -Infinity;
+    let before = upper;
+    let after = lower;
+
+    if (upper > lower) {
+      // Snakes after the watchers that must still wait for them, and snakes before the
+      // blockers they must wait for, swap places within the ranks they hold
+      const later = this.search(watchers.filter(watcher => watcher.rank <= upper), other => other.watchers, other => other.rank <= upper);
+      const earlier = this.search(blockers.filter(blocker => blocker.rank >= lower), other => other.blockers, other => other.rank >= lower);
+      const moved = earlier.concat(later);
+      const ranks = moved.map(other => other.rank).sort((a, b) => a - b);
+      moved.forEach((other, i) => {
+        other.rank = ranks[i];
+      });
+      before = ranks[earlier.length - 1] ?? -Infinity;
+      after = ranks[earlier.length];
+    }
+
+    if (before === -Infinity) {
+      snake.rank = --this.bottomRank;
+      this.ranks.add(snake.rank);
+      return;
+    }
+
+    // Halve towards the snake before it until the rank is free
+    let rank = (before + after) / 2;
+    while (rank > before && this.ranks.has(rank)) {
+      rank = (before + rank) / 2;
+    }
+    if (rank <= before || rank >= after) {
+      this.renumber(snake);
+      return;
+    }
+    snake.rank = rank;
+    this.ranks.add(rank);
+  }
+
+  /**
+   * Collect the snakes reachable from `from` along `edges` within `inRange`, in rank order
+   */
+  private search(
+    from: PlacedSnake[],
+    edges: (snake: PlacedSnake) => PlacedSnake[],
+    inRange: (snake: PlacedSnake) => boolean
+  ): PlacedSnake[] {
+    const stamp = ++this.stamp;
+    const found: PlacedSnake[] = [];
+    const stack = from.slice();
+    while (stack.length > 0) {
+      const snake = stack.pop()!;
+      if (snake.mark === stamp) continue;
+      snake.mark = stamp;
+      found.push(snake);
+      edges(snake).forEach(other => {
+        if (other.mark !== stamp && inRange(other)) stack.push(other);
+      });
+    }
+    return found.sort((a, b) => a.rank - b.rank);
+  }
+
+  /**
+   * Spread the ranks out again once repeated halving has used up the gap between two of them
+   */
+  private renumber(snake: PlacedSnake): void {
+    snake.rank = -Infinity;
+    const ranks = Float64Array.from(this.snakes, other => other.rank).sort();
+
+    // Each rank becomes its position in sorted order
+    this.snakes.forEach(other => {
+      let low = 0;
+      let high = ranks.length - 1;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (ranks[middle] < other.rank) low = middle + 1;
+        else high = middle;
+      }
+      other.rank = low;
+    });
+    this.ranks.clear();
+    this.snakes.forEach(other => {
+      if (other !== snake) this.ranks.add(other.rank);
+    });
+    this.topRank = ranks.length;
+    this.bottomRank = 0;
+    this.rankNew(snake);
+  }
+
+  /**
+   * Grow a snake from `start` through tiles that pass `free`, like generateGreedySnake
+   */
+  growSnake(start: number, free: (tile: number) => boolean, lengthBounds?: [number, number]): number[] | null {
+    const { index, rules } = this;
+    const { degree, neighbors } = index;
+    const minLen = lengthBounds ? lengthBounds[0] : rules.minLen;
+    const path = [start];
+    const positions = [index.cells[start]];
+
+    let targetLen = rules.pickLength(this.rng);
+    if (lengthBounds) {
+      targetLen = Math.min(lengthBounds[1], Math.max(lengthBounds[0], targetLen));
+    }
+
+    const open = (tile: number) => tile >= 0 && free(tile) && !path.includes(tile);
+    while (path.length < targetLen) {
+      const current = path[path.length - 1];
+      let candidates: number[] = [];
+      for (let d = 0; d < degree; d++) {
+        const n = neighbors[current * degree + d];
+        if (open(n) && !index.headCell[n] && (!rules.path || canExtendPath(positions, index.cells[n], rules.path, index.grid))) {
+          candidates.push(n);
+        }
+      }
+      if (candidates.length === 0) break;
+
+      // Heads stay on the boundary, so walk into the tiles that are hardest to reach later
+      if (rules.headRules?.onBoundary) {
+        const openNeighbors = (tile: number) => {
+          let count = 0;
+          for (let d = 0; d < degree; d++) {
+            if (open(neighbors[tile * degree + d])) count++;
+          }
+          return count;
+        };
+        const fewest = Math.min(...candidates.map(openNeighbors));
+        candidates = candidates.filter(n => openNeighbors(n) === fewest);
+      }
+
+      const next = candidates[Math.floor(this.rng.next() * candidates.length)];
+      path.push(next);
+      positions.push(index.cells[next]);
+    }
+
+    // A short final run would break the minimum straight run; end the snake at its last corner instead
+    if (rules.path?.minStraightRun) {
+      const runs = straightRuns(positions);
+      if (runs.length > 1 && runs[runs.length - 1] < rules.path.minStraightRun) {
+        path.length -= runs[runs.length - 1] - 1;
+      }
+    }
+
+    return path.length >= minLen ? path : null;
+  }
+
+  /**
+   * Pick a random piece placement covering `start` on tiles that pass `free`
+   */
+  growPiece(start: number, free: (tile: number) => boolean, lengthBounds?: [number, number]): number[] | null {
+    const { index } = this;
+    const placements = piecePlacementsThrough(index.cells[start], pos => {
+      const tile = tileAt(index, pos);
+      return tile >= 0 && free(tile);
+    }, this.rules.pieces!, lengthBounds);
+    if (placements.length === 0) return null;
+
+    return placements[Math.floor(this.rng.next() * placements.length)].map(pos => tileAt(index, pos));
+  }
+
+  private setCovered(tile: number, covered: boolean): void {
+    const { degree, neighbors } = this.index;
+    if (covered) {
+      this.unlink(tile);
+    }
+    this.covered[tile] = covered ? 1 : 0;
+    this.uncovered += covered ? -1 : 1;
+
+    for (let d = 0; d < degree; d++) {
+      const n = neighbors[tile * degree + d];
+      if (n < 0) continue;
+      if (!this.covered[n]) this.unlink(n);
+      this.freeNeighbors[n] += covered ? -1 : 1;
+      if (!this.covered[n]) this.link(n);
+    }
+
+    if (!covered) {
+      this.link(tile);
+      if (this.startRank) this.startCursor = Math.min(this.startCursor, this.startRank[tile]);
+    }
+  }
+
+  private link(tile: number): void {
+    const bucket = this.freeNeighbors[tile];
+    const head = this.buckets[bucket];
+    this.next[tile] = head;
+    this.prev[tile] = -1;
+    if (head >= 0) this.prev[head] = tile;
+    this.buckets[bucket] = tile;
+  }
+
+  private unlink(tile: number): void {
+    const before = this.prev[tile];
+    const after = this.next[tile];
+    if (before >= 0) this.next[before] = after;
+    else this.buckets[this.freeNeighbors[tile]] = after;
+    if (after >= 0) this.prev[after] = before;
+  }
+}
+
+/**
+ * Place a snake, along with its mirror image under a symmetry
+ * Returns how many snakes were placed, or 0 if the mirror image does not fit.
+ */
+function placeMirrored(fill: IndexedFill, snake: { cells: number[]; links: SnakeLinks }, rules: SnakeRules): number {
+  const { index } = fill;
+  const group = mirroredGroup(snake.cells.map(tile => index.cells[tile]), rules, index.grid);
+  if (!group) return 0;
+
+  const first = fill.place(snake.cells, snake.links);
+  if (group.length === 1) return 1;
+
+  const partner = group[1].map(pos => tileAt(index, pos));
+  const links = fill.fits(partner);
+  if (!links) {
+    fill.remove(first);
+    return 0;
+  }
+  fill.place(partner, links);
+  return 2;
+}
+
+/**
+ * Optimized greedy solver on integer tile indices (version 4)
+ * Covers the most constrained tile next with a snake grown through it that keeps the
+ * blocking graph acyclic, so every fill it returns can be cleared. A tile no snake fits on
+ * is absorbed into a neighboring snake or, failing that, the snakes around it are taken
+ * back; `maxStuck` limits how often that may happen.
+ */
+function solveOnIndex(
+  index: CellIndex,
+  rules: SnakeRules,
+  rng: RandomSource,
+  maxStuck: number,
+  onStep?: SolverStepListener
+): Position[][] | null {
+  const fill = new IndexedFill(index, rules, rng);
+  const open = (tile: number) => !fill.covered[tile];
+  const placements: number[] = [];  // Snakes added by each placement, so a mirrored pair is undone together
+  let stuck = 0;
+
+  while (fill.uncovered > 0) {
+    const start = fill.nextStart();
+
+    // Steer lengths so the remaining tiles still fit the snake count budget
+    const lengthBounds = rules.snakeCount && !rules.mirror
+      ? countLengthBounds(fill.uncovered, fill.snakes.length, rules)
+      : undefined;
+    const maxSnakeAttempts = lengthBounds && lengthBounds[0] > lengthBounds[1] ? 0 : rules.snakeAttempts ?? 30;
+
+    let placed = 0;
+    for (let attempt = 0; attempt < maxSnakeAttempts && placed === 0; attempt++) {
+      const candidate = rules.pieces
+        ? fill.growPiece(start, open, lengthBounds)
+        : fill.growSnake(start, open, lengthBounds);
+      const snake = candidate && fill.orient(candidate);
+      if (snake) placed = placeMirrored(fill, snake, rules);
+    }
+
+    if (placed > 0) {
+      if (rules.mirror) placements.push(placed);
+      onStep?.("place", fill.paths, index.count - fill.uncovered);
+      continue;
+    }
+
+    if (!rules.mirror && !rules.pieces && absorbOnIndex(start, fill, rules)) {
+      onStep?.("place", fill.paths, index.count - fill.uncovered);
+      continue;
+    }
+
+    if (++stuck > maxStuck) return null;
+
+    // Free the tile's surroundings so the most constrained pick comes back to them next;
+    // under a symmetry only the last mirrored placement can go
+    const undo = rules.mirror ? fill.snakes.slice(fill.snakes.length - (placements.pop() ?? 0)) : touchingSnakes(start, fill);
+    if (undo.length === 0) return null;
+    undo.forEach(snake => fill.remove(snake));
+    onStep?.("backtrack", fill.paths, index.count - fill.uncovered);
+  }
+
+  return fill.paths.slice();
+}
+
+/**
+ * Cover the stuck tile by growing a neighboring snake into it, as in absorbCell
+ */
+function absorbOnIndex(stuck: number, fill: IndexedFill, rules: SnakeRules): boolean {
+  const { index } = fill;
+  const { degree, neighbors } = index;
+  const options: { snake: PlacedSnake; parts: number[][] }[] = [];
+
+  for (let d = 0; d < degree; d++) {
+    const n = neighbors[stuck * degree + d];
+    const snake = n >= 0 ? fill.snakeAt(n) : null;
+    if (!snake || snake.locked) continue;
+
+    const at = snake.cells.indexOf(n);
+    options.push({ snake, parts: [snake.cells.slice(0, at + 1).concat([stuck]), snake.cells.slice(at + 1)] });
+    options.push({ snake, parts: [snake.cells.slice(0, at), [stuck].concat(snake.cells.slice(at))] });
+  }
+  shuffle(options, fill.rng);
+
+  for (const { snake, parts: split } of options) {
+    const parts = split.filter(part => part.length > 0);
+    if (parts.some(part => part.length < rules.minLen || part.length > rules.maxLen)) continue;
+    if (rules.snakeCount && fill.snakes.length - 1 + parts.length > rules.snakeCount.max) continue;
+    if (rules.path && parts.some(part => !pathAllowed(part.map(tile => index.cells[tile]), rules.path!, index.grid))) continue;
+
+    fill.remove(snake);
+    const placed: PlacedSnake[] = [];
+    for (const part of parts) {
+      const oriented = fill.orient(part);
+      if (!oriented) break;
+      placed.push(fill.place(oriented.cells, oriented.links));
+    }
+    if (placed.length === parts.length) return true;
+
+    placed.forEach(part => fill.remove(part));
+    fill.restore(snake);
+  }
+
+  return false;
+}
+
+/**
+ * The snakes next to a tile, other than locked ones
+ */
+function touchingSnakes(tile: number, fill: IndexedFill): PlacedSnake[] {
+  const { degree, neighbors } = fill.index;
+  const touching: PlacedSnake[] = [];
+  for (let d = 0; d < degree; d++) {
+    const n = neighbors[tile * degree + d];
+    const snake = n >= 0 ? fill.snakeAt(n) : null;
+    if (snake && !snake.locked && !touching.includes(snake)) touching.push(snake);
+  }
+  return touching;
+}
+
+// Occupancy values for board cells no snake holds
+const EMPTY = -1;
+const WALL = -2;
+
+/**
+ * Number a board cell by its row and column in the ASCII shape
+ */
+function boardSlot(cell: Position, board: Board): number {
+  const { x, y } = board.grid.toAscii(cell);
+  return y * board.width + x;
+}
+
+/**
+ * Build a lookup from board slot to the index of the snake occupying it
+ */
+function buildOccupancy(snakes: Position[][], board: Board): Int32Array {
+  const occupancy = new Int32Array(board.width * board.height).fill(EMPTY);
+  board.walls.forEach(key => {
+    occupancy[boardSlot(parseKey(key), board)] = WALL;
+  });
+  snakes.forEach((snake, index) => snake.forEach(pos => {
+    occupancy[boardSlot(pos, board)] = index;
+  }));
+  return occupancy;
+}
+
+/**
+ * Collect the cells in a snake's line of sight, from just past its head to the board edge
+ * Single-cell snakes have no direction and see nothing.
+ */
+function lineOfSight(snake: Position[], board: Board): Position[] {
+  const direction = getSnakeDirection(snake, board.grid);
+  return direction === null ? [] : rayFrom(snake[0], direction, board);
+}
+
+/**
+ * Collect the cells from just past `start` to the board edge in one direction
+ */
+function rayFrom(start: Position, direction: Direction, board: Board): Position[] {
+  const { grid, width, height } = board;
+  const cells: Position[] = [];
+  let cell = getLookingAtPosition(start, direction, grid)!;
+  const inBounds = (pos: Position) => {
+    const { x, y } = grid.toAscii(pos);
+    return x >= 0 && x < width && y >= 0 && y < height;
+  };
+
+  while (inBounds(cell)) {
+    cells.push(cell);
+    cell = getLookingAtPosition(cell, direction, grid)!;
+  }
+
+  return cells;
+}
+
+/**
+ * Collect the cells a snake passes over on its way off the board
+ * A path snake follows its head, so that is its line of sight. A rigid piece moves as a
+ * whole, so it crosses the cells ahead of each of its own cells, apart from its own.
+ */
+function pathOfTravel(snake: Position[], board: Board): Position[] {
+  const direction = getSnakeDirection(snake, board.grid);
+  if (direction === null) return [];
+  if (isPathBody(snake, board.grid)) return rayFrom(snake[0], direction, board);
+
+  const own = new Set(snake.map(pos => posKey(pos.x, pos.y)));
+  const cells = new Map<string, Position>();
+  snake.forEach(start => rayFrom(start, direction, board).forEach(cell => {
+    const key = posKey(cell.x, cell.y);
+    if (!own.has(key)) cells.set(key, cell);
+  }));
+  return Array.from(cells.values());
+}
+
+/**
+ * Check if a snake faces a wall, which would keep it on the board forever
+ */
+function facesWall(snake: Position[], board: Board): boolean {
+  return board.walls.size > 0 &&
+    pathOfTravel(snake, board).some(cell => board.walls.has(posKey(cell.x, cell.y)));
+}
+
+/**
+ * Find the snakes that have to leave before this one can slide off the board:
+ * those holding a cell in its path of travel
+ * A path snake's body follows the head, so its own body only blocks it if that segment
+ * has not moved off the cell by the time the head arrives; a rigid piece never blocks
+ * itself. Returns null when the snake can never leave (a wall or its own body is in the way).
+ * Single-cell snakes have no direction and are never blocked.
+ */
+function findBlockers(index: number, snake: Position[], occupancy: Int32Array, board: Board): number[] | null {
+  const blockers: number[] = [];
+  const sight = pathOfTravel(snake, board);
+
+  for (let i = 0; i < sight.length; i++) {
+    const owner = occupancy[boardSlot(sight[i], board)];
+    if (owner === EMPTY) continue;
+    if (owner === WALL) return null;
+
+    if (owner === index) {
+      // Own body segment is still in place until the snake has moved len - segment cells
+      const segment = snake.findIndex(pos => pos.x === sight[i].x && pos.y === sight[i].y);
+      if (i + 1 <= snake.length - 1 - segment) return null;
+    } else if (!blockers.includes(owner)) {
+      blockers.push(owner);
+    }
+  }
+
+  return blockers;
+}
+
+/**
+ * Work out the removal round in which each snake first becomes free, or 0 if it never does
+ * Removals only free cells, so a snake leaves as soon as all of its blockers have left.
+ * With `sequential` the snakes of a round leave one at a time in index order, so a snake can
+ * follow a lower-numbered blocker within the same round; otherwise a round leaves all at once.
+ */
+function escapeRounds(blockers: (number[] | null)[], sequential: boolean): number[] {
+  const rounds: number[] = new Array(blockers.length).fill(0);
+  const waiting = new Int32Array(blockers.length);
+  const dependents: number[][] = blockers.map(() => []);
+  const queue: number[] = [];
+
+  blockers.forEach((list, index) => {
+    if (list === null) return;
+    waiting[index] = list.length;
+    list.forEach(blocker => dependents[blocker].push(index));
+    if (list.length === 0) queue.push(index);
+  });
+
+  // Topological order over the blocking graph; snakes in a cycle or behind a wall are never queued
+  for (let next = 0; next < queue.length; next++) {
+    const index = queue[next];
+    rounds[index] = blockers[index]!.reduce(
+      (round, blocker) => Math.max(round, rounds[blocker] + (sequential && blocker < index ? 0 : 1)),
+      1
+    );
+    dependents[index].forEach(dependent => {
+      if (--waiting[dependent] === 0) queue.push(dependent);
+    });
+  }
+
+  return rounds;
+}
+
+export interface EscapeResult {
+  order: number[];   // Snake indices in the order they slide out
+  stuck: number[];   // Snake indices left in a deadlock (empty when solvable)
+}
+
+/**
+ * List the snakes in the order they leave, by round and then index, and the ones that never do
+ */
+function orderEscapes(rounds: number[]): EscapeResult {
+  const indices = rounds.map((_, index) => index);
+  return {
+    order: indices.filter(index => rounds[index] > 0).sort((a, b) => rounds[a] - rounds[b] || a - b),
+    stuck: indices.filter(index => rounds[index] === 0),
+  };
+}
+
+/**
+ * Simulate snakes sliding out one at a time in their facing direction
+ * Each round, every remaining snake that is free slides out in index order.
+ * Removing a snake only frees cells, so taking any free snake never hurts:
+ * if this simulation deadlocks, no escape order exists.
+ */
+export function simulateEscape(snakes: Position[][], board: Board): EscapeResult {
+  const occupancy = buildOccupancy(snakes, board);
+  const blockers = snakes.map((snake, index) => findBlockers(index, snake, occupancy, board));
+  return orderEscapes(escapeRounds(blockers, true));
+}
+
+/**
+ * Try to break a deadlock by reversing stuck snakes (swapping head and tail)
+ * A reversal is kept only if it respects the facing constraint and head cells
+ * and leaves fewer snakes stuck. Returns null if the fill stays unsolvable.
+ */
+function repairDeadlock(
+  snakes: Position[][],
+  board: Board,
+  rules: SnakeRules
+): { snakes: Position[][]; order: number[] } | null {
+  let current = snakes;
+  let directions = current.map(snake => getSnakeDirection(snake, board.grid));
+  // Reversals keep every snake on its cells, so only the reversed snakes' own blockers change
+  const occupancy = buildOccupancy(current, board);
+  let blockers = current.map((snake, index) => findBlockers(index, snake, occupancy, board));
+  let result = orderEscapes(escapeRounds(blockers, true));
+  let improved = true;
+
+  while (result.stuck.length > 0 && improved) {
+    improved = false;
+    const stuck = new Set(result.stuck);
+
+    for (const index of result.stuck) {
+      if (index < (rules.lockedSnakes?.length ?? 0)) continue;
+      // A rigid piece read backwards no longer starts at its head
+      if (!isPathBody(current[index], board.grid)) continue;
+
+      const reversed = current[index].slice().reverse();
+      if (!headsAllowed(reversed, rules.headCells)) continue;
+      if (rules.headAllowed && !rules.headAllowed(reversed)) continue;
+
+      const candidate = current.slice();
+      candidate[index] = reversed;
+      const changed = [index];
+
+      // Under a symmetry the mirror image turns around as well
+      if (rules.mirror) {
+        const image = current[index].map(rules.mirror);
+        const partner = current.findIndex(other => samePath(other, image));
+        candidate[partner] = reversed.map(rules.mirror);
+        changed.push(partner);
+      }
+
+      const reversedDirection = getSnakeDirection(reversed, board.grid);
+      const violatesDirection = facesWall(reversed, board) || candidate.some((other, i) =>
+        i !== index &&
+        snakesFaceEachOther(reversed, reversedDirection, other, changed.includes(i) ? getSnakeDirection(other, board.grid) : directions[i], board.grid)
+      );
+      if (violatesDirection) continue;
+
+      const candidateBlockers = blockers.slice();
+      changed.forEach(i => {
+        candidateBlockers[i] = findBlockers(i, candidate[i], occupancy, board);
+      });
+
+      // A lone reversal frees snakes only if the reversed one gets free, which needs
+      // all of its new blockers to be free already
+      const frees = changed.length > 1 ||
+        candidateBlockers[index]?.every(blocker => !stuck.has(blocker));
+      if (!frees) continue;
+
+      const candidateResult = orderEscapes(escapeRounds(candidateBlockers, true));
+      if (candidateResult.stuck.length < result.stuck.length) {
+        current = candidate;
+        directions = current.map(snake => getSnakeDirection(snake, board.grid));
+        blockers = candidateBlockers;
+        result = candidateResult;
+        improved = true;
+        break;
+      }
+    }
+  }
+
+  return result.stuck.length === 0 ? { snakes: current, order: result.order } : null;
+}
+
+/**
+ * Measure the connected regions of uncovered cells
+ */
+function componentSizes(unused: Set<string>, grid: Grid): number[] {
+  return findComponents(unused, grid).map(component => component.length);
+}
+
+/**
+ * Split the uncovered cells into connected regions, returning each region's cell keys
+ */
+function findComponents(unused: Set<string>, grid: Grid): string[][] {
+  const seen = new Set<string>();
+  const components: string[][] = [];
+
+  for (const key of Array.from(unused)) {
+    if (seen.has(key)) continue;
+
+    // Flood fill the region containing this cell
+    const component: string[] = [];
+    const stack = [parseKey(key)];
+    seen.add(key);
+    while (stack.length > 0) {
+      const pos = stack.pop()!;
+      component.push(posKey(pos.x, pos.y));
+      for (const n of neighbors(pos, unused, grid)) {
+        const nKey = posKey(n.x, n.y);
+        if (!seen.has(nKey)) {
+          seen.add(nKey);
+          stack.push(n);
+        }
+      }
+    }
+    components.push(component);
+  }
+
+  return components;
+}
+
+/**
+ * Find the fewest and most snakes that can cover regions of the given sizes
+ * A region of size s needs k snakes with k * minLen <= s <= k * maxLen for some k.
+ * A dead cell (no uncovered neighbors) is a region of size 1, which fails whenever minLen > 1.
+ * Returns null when some region cannot be covered at all.
+ */
+function snakeCountBounds(sizes: number[], minLen: number, maxLen: number): [number, number] | null {
+  let fewest = 0;
+  let most = 0;
+
+  for (const size of sizes) {
+    const low = Math.ceil(size / maxLen);
+    const high = Math.floor(size / minLen);
+    if (low > high) return null;
+    fewest += low;
+    most += high;
+  }
+
+  return [fewest, most];
+}
+
+/**
+ * Check that the uncovered cells can still be split into snakes, leaving room
+ * for a snake count inside the requested range when there is one
+ */
+function componentsFeasible(unused: Set<string>, placed: number, rules: SnakeRules, grid: Grid): boolean {
+  const bounds = snakeCountBounds(componentSizes(unused, grid), rules.minLen, rules.maxLen);
+  if (bounds === null) return false;
+  if (!rules.snakeCount) return true;
+
+  const [fewest, most] = bounds;
+  return placed + fewest <= rules.snakeCount.max && placed + most >= rules.snakeCount.min;
+}
+
+/**
+ * Find the uncovered cell with the fewest uncovered neighbors
+ */
+function mostConstrainedCell(unused: Set<string>, grid: Grid): Position {
+  let best: Position | null = null;
+  let bestCount = Infinity;
+
+  for (const key of Array.from(unused)) {
+    const pos = parseKey(key);
+    const count = neighbors(pos, unused, grid).length;
+    if (count < bestCount) {
+      best = pos;
+      bestCount = count;
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * Order the tiles for a start heuristic other than most constrained
+ * Scanline goes in reading order of the ASCII shape; boundary-first by steps from the
+ * outside of the shape, then in reading order; random shuffles every tile.
+ */
+function startOrder(tiles: Set<string>, heuristic: StartHeuristic, grid: Grid, rng: RandomSource): Position[] {
+  const cells = Array.from(tiles, parseKey);
+  if (heuristic === "random") {
+    shuffle(cells, rng);
+    return cells;
+  }
+
+  // Breadth-first from the tiles next to a cell outside the shape
+  const depth = new Map<string, number>();
+  if (heuristic === "boundaryFirst") {
+    let frontier = cells.filter(pos => neighbors(pos, tiles, grid).length < grid.directions.length);
+    frontier.forEach(pos => depth.set(posKey(pos.x, pos.y), 0));
+    for (let step = 1; frontier.length > 0; step++) {
+      const reached: Position[] = [];
+      frontier.forEach(pos => {
+        neighbors(pos, tiles, grid).forEach(next => {
+          const key = posKey(next.x, next.y);
+          if (depth.has(key)) return;
+          depth.set(key, step);
+          reached.push(next);
+        });
+      });
+      frontier = reached;
+    }
+  }
+
+  const sortKey = (pos: Position) => {
+    const { x: column, y: row } = grid.toAscii(pos);
+    return [depth.get(posKey(pos.x, pos.y)) ?? 0, row, column];
+  };
+  return cells
+    .map(pos => ({ pos, key: sortKey(pos) }))
+    .sort((a, b) => a.key[0] - b.key[0] || a.key[1] - b.key[1] || a.key[2] - b.key[2])
+    .map(entry => entry.pos);
+}
+
+/**
+ * Depth-first walk over simple paths that extend `path` through uncovered cells
+ * Longer paths are visited before the prefixes they extend.
+ * The visitor returns true to stop the walk.
+ */
+function extendPaths(
+  path: Position[],
+  used: Set<string>,
+  unused: Set<string>,
+  grid: Grid,
+  maxLen: number,
+  rng: RandomSource,
+  visit: (path: Position[]) => boolean
+): boolean {
+  if (path.length < maxLen) {
+    const candidates = neighbors(path[path.length - 1], unused, grid)
+      .filter(n => !used.has(posKey(n.x, n.y)));
+    shuffle(candidates, rng);
+
+    for (const next of candidates) {
+      const key = posKey(next.x, next.y);
+      path.push(next);
+      used.add(key);
+      const stop = extendPaths(path, used, unused, grid, maxLen, rng, visit);
+      used.delete(key);
+      path.pop();
+      if (stop) return true;
+    }
+  }
+
+  return visit(path);
+}
+
+/**
+ * Visit every snake (in both orientations) that covers the given cell
+ * Each snake is split at the cell into a forward part and a backward part,
+ * so the cell may be the head, the tail or anywhere in between.
+ */
+function forEachSnakeThrough(
+  cell: Position,
+  unused: Set<string>,
+  grid: Grid,
+  minLen: number,
+  maxLen: number,
+  rng: RandomSource,
+  visit: (snake: Position[]) => boolean
+): boolean {
+  const used = new Set([posKey(cell.x, cell.y)]);
+
+  return extendPaths([cell], used, unused, grid, maxLen, rng, forward =>
+    extendPaths([cell], used, unused, grid, maxLen - forward.length + 1, rng, backward => {
+      if (forward.length + backward.length - 1 < minLen) return false;
+      return visit(backward.slice(1).reverse().concat(forward));
+    })
+  );
+}
+
+/**
+ * Visit every placement of a piece variant that covers the given cell, in random order
+ */
+function forEachPieceThrough(
+  cell: Position,
+  unused: Set<string>,
+  variants: Position[][],
+  rng: RandomSource,
+  visit: (snake: Position[]) => boolean
+): boolean {
+  const placements = piecePlacementsThrough(cell, pos => unused.has(posKey(pos.x, pos.y)), variants);
+  shuffle(placements, rng);
+  return placements.some(visit);
+}
+
+export type ExactStatus = "found" | "infeasible" | "limit";
+
+/**
+ * Exhaustive backtracking solver
+ * Always covers the most constrained cell next, trying every snake through it,
+ * and prunes on the facing constraint, region sizes and deadlocks among placed
+ * snakes (more snakes only add blockers, so a deadlock never clears later).
+ * Completing the search without a match proves no accepted fill exists.
+ */
+function solveExact(
+  tiles: Set<string>,
+  board: Board,
+  rules: SnakeRules,
+  rng: RandomSource,
+  accept: (snakes: Position[][]) => boolean,
+  nodeLimit: number,
+  onStep?: SolverStepListener
+): { snakes: Position[][] | null; order: number[] | null; status: ExactStatus; fills: number } {
+  const { minLen, maxLen } = rules;
+  const { grid } = board;
+  const { unused, snakes, directions } = startingFill(tiles, rules, grid);
+  let nodes = 0;
+  let fills = 0;
+  let hitLimit = false;
+  let found: { snakes: Position[][]; order: number[] } | null = null;
+
+  const search = (): boolean => {
+    if (unused.size === 0) {
+      fills++;
+      const { order, stuck } = simulateEscape(snakes, board);
+      if (stuck.length === 0 && accept(snakes)) {
+        found = { snakes: snakes.slice(), order };
+        return true;
+      }
+      return false;
+    }
+
+    if (!componentsFeasible(unused, snakes.length, rules, grid)) return false;
+
+    const tryPlacement = (snake: Position[]): boolean => {
+      if (++nodes > nodeLimit) {
+        hitLimit = true;
+        return true;
+      }
+
+      if (rules.path && !pathAllowed(snake, rules.path, grid)) return false;
+      if (!headsAllowed(snake, rules.headCells) || facesWall(snake, board)) return false;
+      if (rules.headAllowed && !rules.headAllowed(snake)) return false;
+
+      const direction = getSnakeDirection(snake, grid);
+      for (let i = 0; i < snakes.length; i++) {
+        if (snakesFaceEachOther(snake, direction, snakes[i], directions[i], grid)) return false;
+      }
+
+      // A mirror image passes every other check by symmetry, but counts towards its own direction's quota
+      const group = mirroredGroup(snake, rules, grid);
+      if (!group) return false;
+      const groupDirections = group.map(placed => getSnakeDirection(placed, grid));
+      const counts = countDirections(directions, grid);
+      for (const groupDirection of groupDirections) {
+        if (!quotaLeavesRoom(counts, groupDirection, rules.headRules)) return false;
+        counts[groupDirection ?? "none"]++;
+      }
+
+      const snakeKeys = group.flat().map(pos => posKey(pos.x, pos.y));
+      snakeKeys.forEach(key => unused.delete(key));
+      snakes.push(...group);
+      directions.push(...groupDirections);
+      onStep?.("place", snakes, tiles.size - unused.size);
+
+      const stop = simulateEscape(snakes, board).stuck.length === 0 && search();
+
+      snakes.splice(-group.length);
+      directions.splice(-group.length);
+      snakeKeys.forEach(key => unused.add(key));
+      if (!stop) onStep?.("backtrack", snakes, tiles.size - unused.size);
+      return stop;
+    };
+
+    const cell = mostConstrainedCell(unused, grid);
+    return rules.pieces
+      ? forEachPieceThrough(cell, unused, rules.pieces, rng, tryPlacement)
+      : forEachSnakeThrough(cell, unused, grid, minLen, maxLen, rng, tryPlacement);
+  };
+
+  search();
+
+  if (found !== null) {
+    const { snakes: foundSnakes, order } = found;
+    return { snakes: foundSnakes, order, status: "found", fills };
+  }
+  return { snakes: null, order: null, status: hitLimit ? "limit" : "infeasible", fills };
+}
+
+/**
+ * Rate how hard a solvable fill is to clear, on a 0-100 scale
+ * Combines four signals, each normalized to 0-1 where 1 is hardest:
+ * - few snakes free at the start
+ * - a deep blocking graph (many rounds of removals before the board is clear)
+ * - few valid escape orders compared to the n! orders of a fully free board
+ * - a wide spread of snake lengths
+ */
+export function scoreDifficulty(snakes: Position[][], board: Board): Difficulty {
+  const snakeCount = snakes.length;
+  const occupancy = buildOccupancy(snakes, board);
+  const rounds = escapeRounds(snakes.map((snake, index) => findBlockers(index, snake, occupancy, board)), false);
+  const roundSizes: number[] = [];
+  rounds.forEach(round => {
+    if (round > 0) roundSizes[round - 1] = (roundSizes[round - 1] ?? 0) + 1;
+  });
+
+  // Snakes free in the same round can leave in any order,
+  // so the product of their factorials is a lower bound on the escape orders
+  const freeAtStart = roundSizes[0] ?? 0;
+  const blockingDepth = roundSizes.length;
+  let escapeOrdersLog10 = 0;
+  roundSizes.forEach(size => {
+    for (let k = size; k > 0; k--) {
+      escapeOrdersLog10 += Math.log10(k);
+    }
+  });
+
+  const lengths = snakes.map(snake => snake.length);
+  const meanLength = lengths.reduce((sum, len) => sum + len, 0) / Math.max(1, snakeCount);
+  const lengthStdDev = Math.sqrt(
+    lengths.reduce((sum, len) => sum + (len - meanLength) ** 2, 0) / Math.max(1, snakeCount)
+  );
+
+  let maxOrdersLog10 = 0;
+  for (let k = 2; k <= snakeCount; k++) maxOrdersLog10 += Math.log10(k);
+
+  const blockedShare = snakeCount > 0 ? 1 - freeAtStart / snakeCount : 0;
+  const depthShare = snakeCount > 1 ? (blockingDepth - 1) / (snakeCount - 1) : 0;
+  const orderShare = maxOrdersLog10 > 0 ? 1 - escapeOrdersLog10 / maxOrdersLog10 : 0;
+  const spreadShare = meanLength > 0 ? Math.min(1, lengthStdDev / meanLength) : 0;
+
+  const score = Math.round(
+    100 * (0.3 * blockedShare + 0.3 * depthShare + 0.3 * orderShare + 0.1 * spreadShare)
+  );
+
+  return {
+    score,
+    snakeCount,
+    freeAtStart,
+    blockingDepth,
+    escapeOrdersLog10: Math.round(escapeOrdersLog10 * 100) / 100,
+    lengthStdDev: Math.round(lengthStdDev * 100) / 100,
+  };
+}
+
+/**
+ * Summarize the achieved head direction histogram
+ */
+export function measureDirections(snakes: Position[][], grid: Grid): DirectionCounts {
+  return countDirections(snakes.map(snake => getSnakeDirection(snake, grid)), grid);
+}
+
+/**
+ * Summarize the achieved snake length distribution
+ */
+export function measureLengths(snakes: Position[][]): LengthStats {
+  const histogram: Record<string, number> = {};
+  snakes.forEach(snake => {
+    histogram[snake.length] = (histogram[snake.length] ?? 0) + 1;
+  });
+
+  const total = snakes.reduce((sum, snake) => sum + snake.length, 0);
+  const mean = snakes.length > 0 ? Math.round((total / snakes.length) * 100) / 100 : 0;
+
+  return { histogram, mean };
+}
+
+export interface GenerateOptions {
+  generatorVersion?: GeneratorVersion;  // Defaults to the latest; older versions reproduce old seeds
+  algorithm?: GeneratorAlgorithm;
+  maxAttempts?: number;
+  innerAttempts?: number;             // Stuck cells a greedy fill may recover from; scales with tile count when unset
+  maxSnakeAttempts?: number;          // Snakes grown on a cell before the greedy solver counts it as stuck
+  startHeuristic?: StartHeuristic;    // How the greedy solver picks the next cell; most constrained when unset
+  maxSearchNodes?: number;            // Placement budget for the exact solver
+  targetDifficulty?: DifficultyBand;  // Keep retrying until the score lands inside this band
+  lengthDistribution?: LengthDistribution;  // Bias greedy snake lengths; uniform when unset
+  snakeCount?: { min?: number; max?: number };  // Inclusive range for the number of snakes
+  grid?: GridOptions;                 // Square cells when unset; positions below use its output coordinates
+  pathRules?: PathRules;              // Bend limits applied to every snake
+  pieces?: PieceVocabulary;           // Only place these polyominoes; square grids only
+  lockedSnakes?: Position[][];        // Authored snakes kept as is; check them with findLockedSnakeProblem first
+  headRules?: HeadRules;              // Where heads may sit and how many may face each way
+  symmetry?: Symmetry;                // Place snakes in mirrored pairs; square grids only
+  objective?: Objective;              // Compare fills for optimizeMs and return the best instead of the first
+  optimizeMs?: number;                // Default 2000; which fills fit in the budget depends on machine speed
+  onEvent?: (event: GenerationEvent) => void;  // Live progress: attempts, placements, backtracks, coverage
+}
+
+export interface GenerationResult {
+  snakes: Position[][] | null;    // In the grid's internal coordinates; snakesToJSON converts them
+  attempts: number;
+  escapeOrder: number[] | null;
+  difficulty: Difficulty | null;  // On failure, the rating of the last solvable fill that missed the band
+  infeasible: boolean;            // True when the exact solver proved no acceptable fill exists
+  reason?: string;                // Why generation failed, when it can be explained
+  seed: string | number;          // Effective seed; passing it back reproduces this result
+  generatorVersion: GeneratorVersion;
+  board: BoardLayout;             // Bounds and walls of the parsed shape
+  objectiveScore?: number;        // The fill's value for the requested objective
+  tuning?: GeneratorTuning;       // Greedy budgets the search ran with, defaults filled in
+  diagnostics?: ShapeDiagnostic[];  // Problems that rule out every fill, found before searching
+  partial?: {                     // On failure, the fill that covered the most tiles, if it left some uncovered
+    snakes: Position[][];         // Internal coordinates, like `snakes`
+    uncovered: Position[];        // Output coordinates, like `board`
+  };
+}
+
+/**
+ * Generate snakes for a shape using optimized greedy algorithm
+ * Fills that cannot be cleared by sliding snakes out are repaired or rejected.
+ */
+export function generateSnakesForShape(
+  asciiShape: string,
+  minSnakeLen: number,
+  maxSnakeLen: number,
+  randomSeed?: string | number,
+  options: GenerateOptions = {}
+): GenerationResult {
+  const {
+    generatorVersion = LATEST_GENERATOR_VERSION,
+    algorithm = "greedy",
+    maxAttempts = 100,
+    maxSearchNodes = 200000,
+    targetDifficulty,
+    lengthDistribution,
+    snakeCount,
+    pathRules,
+    pieces,
+    headRules,
+    symmetry,
+    objective,
+    optimizeMs = 2000,
+    maxSnakeAttempts = 30,
+    startHeuristic = "mostConstrained",
+    onEvent,
+  } = options;
+
+  if (generatorVersion === 1) {
+    return generateWithV1(asciiShape, minSnakeLen, maxSnakeLen, randomSeed, maxAttempts);
+  }
+
+  const grid = getGrid(options.grid);
+  const shape = parseShape(asciiShape, grid, generatorVersion === 2);
+  const { tiles } = shape;
+  const board = describeBoard(shape);
+  const lockedSnakes = options.lockedSnakes?.map(snake => snake.map(grid.fromOutput));
+
+  // Create request-scoped random number generator, picking a seed if none was given
+  const seed = randomSeed ?? createSeed();
+  const rng = createRandom(seed);
+
+  // Report solver steps, keeping the partial fill that has covered the most tiles so far
+  let bestCovered = 0;
+  let bestFill: Position[][] = [];
+  const reportStep = (attempt: number): SolverStepListener => (type, snakes, covered) => {
+    onEvent?.({ type, attempt, snakes: snakes.length, covered });
+    if (covered > bestCovered) {
+      bestCovered = covered;
+      bestFill = snakes.slice();
+      onEvent?.({ type: "progress", attempt, bestCoverage: bestCovered / tiles.size });
+    }
+  };
+
+  // A failed search that never covered every tile reports how far it got
+  const partialFill = (): GenerationResult["partial"] => {
+    if (bestFill.length === 0 || bestCovered === tiles.size) return undefined;
+    const covered = new Set(bestFill.flat().map(pos => posKey(pos.x, pos.y)));
+    const uncovered = Array.from(tiles).filter(key => !covered.has(key));
+    return { snakes: bestFill, uncovered: uncovered.map(key => grid.toOutput(parseKey(key))) };
+  };
+
+  const rules: SnakeRules = {
+    minLen: minSnakeLen,
+    maxLen: maxSnakeLen,
+    pickLength: lengthDistribution
+      ? distributionLengthPicker(minSnakeLen, maxSnakeLen, lengthDistribution)
+      : uniformLengthPicker(minSnakeLen, maxSnakeLen),
+    path: pathRules,
+    headCells: shape.headCells.size > 0 ? shape.headCells : undefined,
+    lockedSnakes,
+    headRules,
+    headAllowed: headRules && headPlacementCheck(shape, headRules),
+    localRepair: generatorVersion >= 3,
+    snakeAttempts: maxSnakeAttempts,
+    start: startHeuristic,
+  };
+
+  if (pieces) {
+    rules.pieces = buildPieceVariants(pieces);
+    rules.minLen = Math.min(...rules.pieces.map(variant => variant.length));
+    rules.maxLen = Math.max(...rules.pieces.map(variant => variant.length));
+  }
+
+  if (symmetry) {
+    if (grid !== SQUARE_GRID) {
+      throw new Error("Symmetric generation is only supported on square grids");
+    }
+    const mirror = mirrorFor(tiles, symmetry);
+    const reason = symmetryProblem(shape, symmetry, mirror);
+    if (reason) {
+      return { snakes: null, attempts: 0, escapeOrder: null, difficulty: null, infeasible: true, reason, seed, generatorVersion, board };
+    }
+    rules.mirror = mirror;
+  }
+
+  // Rule out shapes with cells no snake can cover before spending attempts on them
+  const diagnostics = diagnoseShape(shape, rules);
+  if (diagnostics.length > 0) {
+    const more = diagnostics.length > 1 ? ` (and ${diagnostics.length - 1} more problem${diagnostics.length > 2 ? "s" : ""})` : "";
+    const reason = `This shape cannot be filled: ${diagnostics[0].message}${more}.`;
+    return { snakes: null, attempts: 0, escapeOrder: null, difficulty: null, infeasible: true, reason, seed, generatorVersion, board, diagnostics };
+  }
+
+  if (snakeCount) {
+    rules.snakeCount = { min: snakeCount.min ?? 0, max: snakeCount.max ?? Infinity };
+
+    // Rule out counts the tile total alone makes impossible before searching
+    const reason = explainSnakeCount(tiles, rules, grid);
+    if (reason) {
+      return { snakes: null, attempts: 0, escapeOrder: null, difficulty: null, infeasible: true, reason, seed, generatorVersion, board };
+    }
+  }
+
+  // With an objective, fills keep being compared until the budget runs out
+  const deadline = Date.now() + optimizeMs;
+
+  if (algorithm === "exact") {
+    let lastDifficulty: Difficulty | null = null;
+    let best: { snakes: Position[][]; value: number } | null = null;
+    const accept = (snakes: Position[][]) => {
+      if (!isCountInRange(snakes.length, rules)) return false;
+      if (!directionsMeetQuotas(snakes.map(snake => getSnakeDirection(snake, grid)), rules.headRules, grid)) return false;
+      if (targetDifficulty || objective === "hardest") lastDifficulty = scoreDifficulty(snakes, shape);
+      if (targetDifficulty && !isWithinBand(lastDifficulty!.score, targetDifficulty)) return false;
+      if (!objective) return true;
+
+      // Keep searching past accepted fills, stopping the search once time is up
+      const value = objectiveValue(objective, snakes, lastDifficulty);
+      if (best === null || isBetterScore(objective, value, best.value)) {
+        best = { snakes: snakes.slice(), value };
+      }
+      return Date.now() >= deadline;
+    };
+
+    onEvent?.({ type: "attempt", attempt: 1 });
+    const result = solveExact(
+      tiles, shape, rules, rng, accept, maxSearchNodes, reportStep(1)
+    );
+    const attempts = Math.max(1, result.fills);
+
+    if (best !== null) {
+      const { snakes, value } = best;
+      return {
+        snakes,
+        attempts,
+        escapeOrder: simulateEscape(snakes, shape).order,
+        difficulty: scoreDifficulty(snakes, shape),
+        infeasible: false,
+        seed,
+        generatorVersion,
+        board,
+        objectiveScore: value,
+      };
+    }
+
+    if (result.snakes === null) {
+      return { snakes: null, attempts, escapeOrder: null, difficulty: lastDifficulty, infeasible: result.status === "infeasible", seed, generatorVersion, board, partial: partialFill() };
+    }
+    return {
+      snakes: result.snakes,
+      attempts,
+      escapeOrder: result.order,
+      difficulty: scoreDifficulty(result.snakes, shape),
+      infeasible: false,
+      seed,
+      generatorVersion,
+      board,
+    };
+  }
+
+  // Version 4 runs the greedy solver on integer tile indices
+  const cellIndex = generatorVersion >= 4
+    ? buildCellIndex(grid, shape.width, shape.height, Array.from(tiles, parseKey), Array.from(shape.walls, parseKey), Array.from(shape.headCells, parseKey))
+    : null;
+
+  // Scale attempts based on shape complexity (version 4 only counts tiles it could not cover or repair)
   const tileCount = tiles.size;
-  const innerAttempts = Math.min(500, Math.max(100, tileCount * 2));
+  const innerAttempts = options.innerAttempts ?? Math.min(500, Math.max(100, tileCount * 2));
+  const tuning: GeneratorTuning = { innerAttempts, maxSnakeAttempts, startHeuristic };
+  if (!objective) tuning.maxAttempts = maxAttempts;
+  let lastDifficulty: Difficulty | null = null;
+  let countMisses = 0;
+  let quotaMisses = 0;
+  let best: GenerationResult | null = null;
+  let attempt = 0;
 
   // Try greedy algorithm multiple times with different random choices
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    const snakes = solveWithGreedy(tiles, minSnakeLen, maxSnakeLen, rng, innerAttempts);
-    if (snakes !== null) {
-      return { snakes, attempts: attempt };
+  while (objective ? Date.now() < deadline : attempt < maxAttempts) {
+    attempt++;
+    onEvent?.({ type: "attempt", attempt });
+    const snakes = cellIndex
+      ? solveOnIndex(cellIndex, rules, rng, innerAttempts, reportStep(attempt))
+      : solveWithGreedy(tiles, shape, rules, rng, innerAttempts, reportStep(attempt));
+    if (snakes === null) {
+      // Fills steer their lengths towards the count, so one that gets stuck missed it as well
+      if (rules.snakeCount) countMisses++;
+      continue;
+    }
+
+    if (!isCountInRange(snakes.length, rules)) {
+      countMisses++;
+      continue;
+    }
+
+    const solvable = repairDeadlock(snakes, shape, rules);
+    if (solvable === null) continue;
+
+    // Reversals during repair can move heads, so quotas are checked on the repaired fill
+    if (!directionsMeetQuotas(solvable.snakes.map(snake => getSnakeDirection(snake, grid)), rules.headRules, grid)) {
+      quotaMisses++;
+      continue;
+    }
+
+    const difficulty = scoreDifficulty(solvable.snakes, shape);
+    if (targetDifficulty && !isWithinBand(difficulty.score, targetDifficulty)) {
+      lastDifficulty = difficulty;
+      continue;
+    }
+
+    const result = { snakes: solvable.snakes, attempts: attempt, escapeOrder: solvable.order, difficulty, infeasible: false, seed, generatorVersion, board, tuning };
+    if (!objective) return result;
+
+    const value = objectiveValue(objective, solvable.snakes, difficulty);
+    if (best === null || isBetterScore(objective, value, best.objectiveScore!)) {
+      best = { ...result, objectiveScore: value };
+    }
+  }
+
+  if (best !== null) {
+    return { ...best, attempts: attempt };
+  }
+
+  let reason: string | undefined;
+  if (lastDifficulty === null && countMisses > 0) {
+    reason = `No fill reached ${describeSnakeCount(rules.snakeCount!)} snakes after ${attempt} attempts; each one got stuck or ended with another count. Try widening the snake count or length range.`;
+  } else if (lastDifficulty === null && quotaMisses > 0) {
+    reason = `No solvable fill met the head direction quotas after ${attempt} attempts. Try looser quotas or a larger spread.`;
+  }
+  return { snakes: null, attempts: attempt, escapeOrder: null, difficulty: lastDifficulty, infeasible: false, reason, seed, generatorVersion, board, partial: partialFill(), tuning };
+}
+
+/**
+ * Measure a fill against an objective: snake count, mean length, length variance or difficulty score
+ */
+function objectiveValue(objective: Objective, snakes: Position[][], difficulty: Difficulty | null): number {
+  const lengths = snakes.map(snake => snake.length);
+  const mean = lengths.reduce((sum, len) => sum + len, 0) / lengths.length;
+
+  switch (objective) {
+    case "fewestSnakes":
+      return snakes.length;
+    case "longestMean":
+      return Math.round(mean * 100) / 100;
+    case "lowestVariance":
+      return Math.round(lengths.reduce((sum, len) => sum + (len - mean) ** 2, 0) / lengths.length * 100) / 100;
+    case "hardest":
+      return difficulty!.score;
+  }
+}
+
+function isBetterScore(objective: Objective, value: number, best: number): boolean {
+  return objective === "fewestSnakes" || objective === "lowestVariance" ? value < best : value > best;
+}
+
+/**
+ * Check a finished fill against the requested snake count, if any
+ */
+function isCountInRange(count: number, rules: SnakeRules): boolean {
+  return !rules.snakeCount || (count >= rules.snakeCount.min && count <= rules.snakeCount.max);
+}
+
+/**
+ * Phrase a snake count range for error messages
+ */
+function describeSnakeCount({ min, max }: { min: number; max: number }): string {
+  if (min === max) return `exactly ${min}`;
+  if (max === Infinity) return `at least ${min}`;
+  if (min === 0) return `at most ${max}`;
+  return `between ${min} and ${max}`;
+}
+
+/**
+ * Check whether some mix of snake lengths between minLen and maxLen adds up to `size`
+ */
+function canSplit(size: number, minLen: number, maxLen: number): boolean {
+  return Math.ceil(size / maxLen) <= Math.floor(size / minLen);
+}
+
+/**
+ * Find parts of the shape that no fill can cover, before searching
+ * Looks at each region of free cells (isolated cells, regions smaller than a snake, regions
+ * no mix of lengths adds up to) and at dead-end corridors: a corridor whose length cannot be
+ * split into snakes needs a snake through the cell it opens onto, and only one snake fits there.
+ * Under a symmetry, a cell that is its own mirror image needs a snake that is too, which only
+ * a single cell can be when none of its neighbors is (the center cell under a half turn).
+ * Every problem found rules out all fills; finding none does not guarantee a fill exists.
+ * Cells are reported in the grid's output coordinates.
+ */
+function diagnoseShape(shape: ShapeData, rules: SnakeRules): ShapeDiagnostic[] {
+  const { grid } = shape;
+  const { minLen, maxLen } = rules;
+  const { unused } = startingFill(shape.tiles, rules, grid);
+  const diagnostics: ShapeDiagnostic[] = [];
+  const report = (message: string, cells: Position[]) => {
+    diagnostics.push({ message, cells: cells.map(grid.toOutput) });
+  };
+  const where = (pos: Position) => formatCell(grid.toOutput(pos));
+
+  for (const component of findComponents(unused, grid)) {
+    const cells = component.map(parseKey);
+    if (cells.length === 1 && minLen > 1) {
+      report(`The cell at ${where(cells[0])} is isolated, but snakes need at least ${minLen} cells`, cells);
+    } else if (cells.length < minLen) {
+      report(`The region of ${cells.length} cells at ${where(cells[0])} is smaller than the minimum snake length ${minLen}`, cells);
+    } else if (!canSplit(cells.length, minLen, maxLen)) {
+      report(`The region of ${cells.length} cells at ${where(cells[0])} cannot be split into snakes of length ${minLen}-${maxLen}`, cells);
+    }
+  }
+
+  // Any longer snake over such a cell would overlap its own mirror image there
+  if (rules.mirror && minLen > 1) {
+    const fixed = (pos: Position) => {
+      const image = rules.mirror!(pos);
+      return image.x === pos.x && image.y === pos.y;
+    };
+    unused.forEach(key => {
+      const cell = parseKey(key);
+      if (fixed(cell) && !neighbors(cell, unused, grid).some(fixed)) {
+        report(`The cell at ${where(cell)} is its own mirror image, so only a single-cell snake can cover it, but snakes need at least ${minLen} cells`, [cell]);
+      }
+    });
+  }
+
+  // Walk from each dead end to the junction its corridor opens onto
+  const needsJunction = new Map<string, { corridors: Position[][]; leftover: number[] }>();
+  unused.forEach(key => {
+    let current = parseKey(key);
+    if (neighbors(current, unused, grid).length !== 1) return;
+
+    const corridor: Position[] = [];
+    let previous: Position | null = null;
+    while (neighbors(current, unused, grid).length <= 2) {
+      corridor.push(current);
+      const onward = neighbors(current, unused, grid)
+        .filter(n => !previous || n.x !== previous.x || n.y !== previous.y);
+      if (onward.length === 0) return;  // A path between two dead ends is a whole region, checked above
+      previous = current;
+      current = onward[0];
+    }
+    if (canSplit(corridor.length, minLen, maxLen)) return;
+
+    // The snake through the junction takes the shortest end of the corridor the others leave
+    let covered = corridor.length - 1;
+    while (covered > 0 && !canSplit(covered, minLen, maxLen)) covered--;
+
+    const junction = posKey(current.x, current.y);
+    const entry = needsJunction.get(junction) ?? { corridors: [], leftover: [] };
+    entry.corridors.push(corridor);
+    entry.leftover.push(corridor.length - covered);
+    needsJunction.set(junction, entry);
+  });
+
+  needsJunction.forEach(({ corridors, leftover }, junction) => {
+    const cell = parseKey(junction);
+    const cells = [cell, ...corridors.flat()];
+    if (corridors.length > 2) {
+      report(`${corridors.length} dead-end corridors meet at ${where(cell)}, and each needs a snake through that cell to be covered`, cells);
+    } else if (corridors.length === 2 && leftover[0] + leftover[1] + 1 > maxLen) {
+      const needed = leftover[0] + leftover[1] + 1;
+      report(`The dead-end corridors meeting at ${where(cell)} need a snake of at least ${needed} cells through it, longer than the maximum ${maxLen}`, cells);
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Explain why no fill can have a snake count inside the requested range, or null if one might
+ * Only region sizes are considered, so passing this check does not guarantee a fill exists.
+ */
+function explainSnakeCount(tiles: Set<string>, rules: SnakeRules, grid: Grid): string | null {
+  const { minLen, maxLen, snakeCount } = rules;
+  const { unused, snakes: locked } = startingFill(tiles, rules, grid);
+  const bounds = snakeCountBounds(componentSizes(unused, grid), minLen, maxLen);
+  const requested = `${describeSnakeCount(snakeCount!)} snakes were requested`;
+
+  if (bounds === null) {
+    return `This shape cannot be split into snakes of length ${minLen}-${maxLen} at all, but ${requested}.`;
+  }
+
+  const fewest = bounds[0] + locked.length;
+  const most = bounds[1] + locked.length;
+  if (fewest > snakeCount!.max || most < snakeCount!.min) {
+    const possible = fewest === most ? `exactly ${fewest}` : `between ${fewest} and ${most}`;
+    const lockedNote = locked.length > 0 ? ` (${locked.length} of them locked)` : "";
+    return `A shape with ${tiles.size} tiles and snake lengths ${minLen}-${maxLen} needs ${possible} snakes${lockedNote}, but ${requested}.`;
+  }
+
+  return null;
+}
+
+function formatCell(pos: Position): string {
+  return `(${pos.x}, ${pos.y})`;
+}
+
+/**
+ * Explain why snakes are not paths over snake cells: a cell outside the shape, an overlap,
+ * or a position that touches none before it. Rigid pieces list a cell after one it does not
+ * follow on from, so any earlier neighbor will do. `label` names a snake in messages.
+ */
+function findMalformedSnake(outputSnakes: Position[][], tiles: Set<string>, grid: Grid, label: string): string | null {
+  const owners = new Map<string, number>();
+
+  for (let i = 0; i < outputSnakes.length; i++) {
+    const snake = outputSnakes[i].map(grid.fromOutput);
+    const name = `${label} ${i + 1}`;
+
+    for (let j = 0; j < snake.length; j++) {
+      const pos = snake[j];
+      const cell = formatCell(outputSnakes[i][j]);
+      const key = posKey(pos.x, pos.y);
+      if (!tiles.has(key)) return `${name} covers ${cell}, which is not a snake cell`;
+      if (owners.has(key)) {
+        const other = owners.get(key)!;
+        return other === i
+          ? `${name} covers ${cell} twice`
+          : `${label}s ${other + 1} and ${i + 1} overlap at ${cell}`;
+      }
+      owners.set(key, i);
+
+      if (j > 0 && !snake.slice(0, j).some(earlier => isNeighbor(earlier, pos, grid))) {
+        return `${name} jumps from ${formatCell(outputSnakes[i][j - 1])} to ${cell}; each position must be adjacent to an earlier one`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Explain why snakes sent for a blocking graph are not a valid fill, or null if they are
+ * Without a shape, any cell may hold a snake. Facing rules and deadlocks are left alone,
+ * since showing who blocks whom is what the graph is for.
+ */
+export function findGraphSnakeProblem(snakes: Position[][], asciiShape?: string, gridOptions?: GridOptions): string | null {
+  const grid = getGrid(gridOptions);
+  const tiles = asciiShape !== undefined
+    ? parseShape(asciiShape, grid).tiles
+    : new Set(snakes.flat().map(grid.fromOutput).map(pos => posKey(pos.x, pos.y)));
+  return findMalformedSnake(snakes, tiles, grid, "Snake");
+}
+
+/**
+ * Explain why a set of locked snakes cannot be kept in a fill of this shape, or null if it can
+ * Locked snakes must be paths over snake cells that respect head cells, walls and the
+ * facing constraint, and must not deadlock among themselves (more snakes only add blockers).
+ * Positions are in the grid's output coordinates, and so are the cells named in messages.
+ */
+export function findLockedSnakeProblem(
+  asciiShape: string,
+  lockedSnakes: Position[][],
+  gridOptions?: GridOptions
+): string | null {
+  const grid = getGrid(gridOptions);
+  const shape = parseShape(asciiShape, grid);
+  const snakes = lockedSnakes.map(snake => snake.map(grid.fromOutput));
+
+  const malformed = findMalformedSnake(lockedSnakes, shape.tiles, grid, "Locked snake");
+  if (malformed) return malformed;
+
+  for (let i = 0; i < snakes.length; i++) {
+    const snake = snakes[i];
+    const name = `Locked snake ${i + 1}`;
+
+    if (!headsAllowed(snake, shape.headCells)) return `${name} covers a head cell ('@') with its body`;
+    if (facesWall(snake, shape)) return `${name} faces a wall`;
+
+    for (let j = 0; j < i; j++) {
+      if (snakesFaceEachOther(snake, getSnakeDirection(snake, grid), snakes[j], getSnakeDirection(snakes[j], grid), grid)) {
+        return `Locked snakes ${j + 1} and ${i + 1} face each other`;
+      }
     }
   }
 
-  return { snakes: null, attempts: maxAttempts };
+  if (simulateEscape(snakes, shape).stuck.length > 0) {
+    return "The locked snakes block each other, so they can never all escape";
+  }
+
+  return null;
+}
+
+/**
+ * Explain why a shape lacks the requested symmetry, or null if it has it
+ */
+export function findSymmetryProblem(asciiShape: string, symmetry: Symmetry): string | null {
+  const shape = parseShape(asciiShape, SQUARE_GRID);
+  return symmetryProblem(shape, symmetry, mirrorFor(shape.tiles, symmetry));
+}
+
+/**
+ * Run the frozen version 1 generator and analyze its fill with the current tools
+ * Version 1 predates the escape check, so its fills may have no escape order.
+ */
+function generateWithV1(
+  asciiShape: string,
+  minSnakeLen: number,
+  maxSnakeLen: number,
+  randomSeed: string | number | undefined,
+  maxAttempts: number
+): GenerationResult {
+  if (typeof randomSeed === "string") {
+    throw new Error("Generator version 1 only supports integer seeds");
+  }
+
+  const seed = randomSeed ?? createIntegerSeed();
+  const { snakes, attempts } = generateSnakesV1(asciiShape, minSnakeLen, maxSnakeLen, seed, maxAttempts);
+  const shape = parseShape(asciiShape, SQUARE_GRID);
+  const base = { attempts, infeasible: false, seed, generatorVersion: 1 as const, board: describeBoard(shape), tuning: { maxAttempts } };
+
+  if (snakes === null) {
+    return { ...base, snakes: null, escapeOrder: null, difficulty: null };
+  }
+
+  const { order, stuck } = simulateEscape(snakes, shape);
+
+  return {
+    ...base,
+    snakes,
+    escapeOrder: stuck.length === 0 ? order : null,
+    difficulty: scoreDifficulty(snakes, shape),
+  };
+}
+
+function isWithinBand(score: number, band: DifficultyBand): boolean {
+  return score >= (band.min ?? 0) && score <= (band.max ?? 100);
 }
 
 /**
  * Calculate the position the snake is looking at based on head and direction
  */
-function getLookingAtPosition(head: Position, direction: Direction | null): Position | null {
+function getLookingAtPosition(head: Position, direction: Direction | null, grid: Grid): Position | null {
   if (direction === null) {
     return null;
   }
   
-  const lookingAt = { ...head };
-  
-  switch (direction) {
-    case "up":
-      lookingAt.y -= 1;
-      break;
-    case "down":
-      lookingAt.y += 1;
-      break;
-    case "left":
-      lookingAt.x -= 1;
-      break;
-    case "right":
-      lookingAt.x += 1;
-      break;
-  }
-  
-  return lookingAt;
+  const step = grid.steps[direction]!;
+  return { x: head.x + step.x, y: head.y + step.y };
+}
+
+export interface BlockingGraph {
+  blockedBy: number[][];  // For each snake, the snakes in its line of sight (nearest first)
+  blocks: number[][];     // For each snake, the snakes whose line of sight it sits in
+}
+
+/**
+ * Build the blocking dependency graph: snake A blocks snake B when any cell of A
+ * lies between B's head and the board edge (or, for a rigid piece, ahead of any of
+ * its cells), so A has to leave before B can.
+ * The board only needs to extend as far as the snakes do, since empty cells never block.
+ */
+export function buildBlockingGraph(snakes: Position[][], grid: Grid): BlockingGraph {
+  const extents = snakes.flat().map(grid.toAscii);
+  const board: Board = {
+    grid,
+    width: Math.max(0, ...extents.map(pos => pos.x + 1)),
+    height: Math.max(0, ...extents.map(pos => pos.y + 1)),
+    walls: new Set(),
+  };
+  // Positions here come straight from requests, so cells are looked up by key rather than slot
+  const occupancy = new Map<string, number>();
+  snakes.forEach((snake, index) => snake.forEach(pos => occupancy.set(posKey(pos.x, pos.y), index)));
+
+  const blockedBy: number[][] = snakes.map(() => []);
+  const blocks: number[][] = snakes.map(() => []);
+
+  snakes.forEach((snake, index) => {
+    for (const cell of pathOfTravel(snake, board)) {
+      const owner = occupancy.get(posKey(cell.x, cell.y));
+      if (owner === undefined || owner === index || blockedBy[index].includes(owner)) continue;
+      blockedBy[index].push(owner);
+      blocks[owner].push(index);
+    }
+  });
+
+  return { blockedBy, blocks };
 }
 
 /**
- * Convert snakes to JSON format
+ * Convert snakes (in the grid's internal coordinates) to JSON format
  */
-export function snakesToJSON(snakes: Position[][]): SnakeShape[] {
+export function snakesToJSON(snakes: Position[][], grid: Grid): SnakeShape[] {
+  const types = snakes.map((_, i) => `Snake${i + 1}`);
+  const graph = buildBlockingGraph(snakes, grid);
+
   return snakes.map((snake, i) => {
-    const direction = getSnakeDirection(snake);
+    const direction = getSnakeDirection(snake, grid);
     const head = snake[0];
-    const lookingAt = getLookingAtPosition(head, direction);
+    const lookingAt = getLookingAtPosition(head, direction, grid);
     
     return {
-      type: `Snake${i + 1}`,
+      type: types[i],
       startPos: { x: 0, y: 0 },
       direction,
-      lookingAt,
-      positions: snake,
+      lookingAt: lookingAt && grid.toOutput(lookingAt),
+      positions: snake.map(grid.toOutput),
+      blockedBy: graph.blockedBy[i].map(j => types[j]),
+      blocks: graph.blocks[i].map(j => types[j]),
+      bends: isPathBody(snake, grid) ? countBends(snake) : 0,
     };
   });
 }
+
+/**
+ * Render the blocking graph in Graphviz DOT format
+ * An edge A -> B means A blocks B, so A must slide out first.
+ */
+export function blockingGraphToDot(shapes: SnakeShape[]): string {
+  const lines = ["digraph blocking {"];
+
+  shapes.forEach(shape => {
+    lines.push(`  "${shape.type}";`);
+  });
+  shapes.forEach(shape => {
+    shape.blocks.forEach(blocked => {
+      lines.push(`  "${shape.type}" -> "${blocked}";`);
+    });
+  });
+
+  lines.push("}");
+  return lines.join("\n");
+}
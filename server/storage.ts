@@ -1,11 +1,78 @@
+import { randomUUID } from "crypto";
+import type { GenerateSnakeRequest, Job, JobStatus } from "@shared/schema";
+
+// Finished jobs are dropped after an hour, oldest first past this many
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+const MAX_FINISHED_JOBS = 500;
+
+const isFinished = (status: JobStatus) => status !== "queued" && status !== "running";
+
+export type JobUpdate = Partial<Pick<Job, "status" | "progress" | "result">>;
+
 // Storage interface for future expansion
 export interface IStorage {
-  // Add storage methods here as needed
+  createJob(request: GenerateSnakeRequest): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  // With `from`, the update only applies while the job's status is one of those; otherwise the job comes back unchanged
+  updateJob(id: string, update: JobUpdate, from?: JobStatus[]): Promise<Job | undefined>;
+  countActiveJobs(): Promise<number>;  // Jobs that are queued or running
 }
 
 export class MemStorage implements IStorage {
+  private jobs: Map<string, Job>;
+  private finishedAt: Map<string, number>;  // In the order jobs finished
+
   constructor() {
-    // Initialize storage here
+    this.jobs = new Map();
+    this.finishedAt = new Map();
+  }
+
+  async createJob(request: GenerateSnakeRequest): Promise<Job> {
+    this.evictFinishedJobs();
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: randomUUID(),
+      status: "queued",
+      request,
+      progress: null,
+      result: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    this.evictFinishedJobs();
+    return this.jobs.get(id);
+  }
+
+  async updateJob(id: string, update: JobUpdate, from?: JobStatus[]): Promise<Job | undefined> {
+    const existing = this.jobs.get(id);
+    if (!existing) return undefined;
+    if (from && !from.includes(existing.status)) return existing;
+
+    const job: Job = { ...existing, ...update, updatedAt: new Date().toISOString() };
+    this.jobs.set(id, job);
+    if (isFinished(job.status) && !this.finishedAt.has(id)) {
+      this.finishedAt.set(id, Date.now());
+      this.evictFinishedJobs();
+    }
+    return job;
+  }
+
+  async countActiveJobs(): Promise<number> {
+    return this.jobs.size - this.finishedAt.size;
+  }
+
+  private evictFinishedJobs(): void {
+    const expired = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, finishedAt] of Array.from(this.finishedAt)) {
+      if (finishedAt > expired && this.finishedAt.size <= MAX_FINISHED_JOBS) break;
+      this.finishedAt.delete(id);
+      this.jobs.delete(id);
+    }
   }
 }
 
@@ -1,28 +1,231 @@
 import { z } from "zod";
 
+// Difficulty schemas
+export const difficultyBandSchema = z.object({
+  min: z.number().min(0).max(100).optional(),
+  max: z.number().min(0).max(100).optional(),
+}).refine(data => data.min === undefined || data.max === undefined || data.min <= data.max, {
+  message: "Minimum difficulty must be less than or equal to maximum",
+  path: ["min"],
+});
+
+export type DifficultyBand = z.infer<typeof difficultyBandSchema>;
+
+export const difficultySchema = z.object({
+  score: z.number(),             // 0 (trivial) to 100 (hardest)
+  snakeCount: z.number(),
+  freeAtStart: z.number(),       // Snakes that can slide out immediately
+  blockingDepth: z.number(),     // Rounds of removals needed to clear the board
+  escapeOrdersLog10: z.number(), // Lower bound on the number of valid escape orders, log10
+  lengthStdDev: z.number(),
+});
+
+export type Difficulty = z.infer<typeof difficultySchema>;
+
+// Length distribution schemas
+export const lengthBucketSchema = z.object({
+  min: z.number().int().min(1),
+  max: z.number().int().min(1),
+  weight: z.number().positive("Bucket weight must be positive"),
+}).refine(data => data.min <= data.max, {
+  message: "Bucket minimum must be less than or equal to its maximum",
+  path: ["min"],
+});
+
+export type LengthBucket = z.infer<typeof lengthBucketSchema>;
+
+export const lengthDistributionSchema = z.object({
+  buckets: z.array(lengthBucketSchema).min(1).optional(),  // e.g. 3-5 weight 8, 10-13 weight 1
+  meanLength: z.number().positive().optional(),            // Target average snake length
+}).refine(data => data.buckets !== undefined || data.meanLength !== undefined, {
+  message: "Length distribution needs buckets or a mean length",
+});
+
+export type LengthDistribution = z.infer<typeof lengthDistributionSchema>;
+
+export const lengthStatsSchema = z.object({
+  histogram: z.record(z.string(), z.number()),  // Snake length -> count
+  mean: z.number(),
+});
+
+export type LengthStats = z.infer<typeof lengthStatsSchema>;
+
+export const positionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+export type Position = z.infer<typeof positionSchema>;
+
+// Square boards use the first four; hex boards use left, right and the diagonals
+export const directionSchema = z.enum(["up", "down", "left", "right", "up-left", "up-right", "down-left", "down-right"]);
+
+export type Direction = z.infer<typeof directionSchema>;
+
+export const gridTopologySchema = z.enum(["square", "hex"]);
+
+export type GridTopology = z.infer<typeof gridTopologySchema>;
+
+export const gridOptionsSchema = z.object({
+  topology: gridTopologySchema.default("square"),
+  coordinates: z.enum(["offset", "axial"]).default("offset"),  // Hex positions: offset rows (odd rows shifted right) or axial q/r
+});
+
+export type GridOptions = z.infer<typeof gridOptionsSchema>;
+
+const directionQuotaSchema = z.object({
+  min: z.number().int().min(0).optional(),
+  max: z.number().int().min(0).optional(),
+}).refine(data => data.min === undefined || data.max === undefined || data.min <= data.max, {
+  message: "Direction quota minimum must be less than or equal to maximum",
+});
+
+export const headRulesSchema = z.object({
+  onBoundary: z.boolean().optional(),                         // Heads only on cells next to the outside of the shape
+  maxInteriorSight: z.number().int().min(0).optional(),       // Most shape cells a head may look across
+  quotas: z.record(directionSchema, directionQuotaSchema).optional(),  // Per-direction snake counts
+  maxSpread: z.number().int().min(0).optional(),              // Most minus least common direction
+});
+
+export type HeadRules = z.infer<typeof headRulesSchema>;
+
+// Mirror left to right, top to bottom, or turn half way around the shape's center
+export const symmetrySchema = z.enum(["horizontal", "vertical", "rotational"]);
+
+export type Symmetry = z.infer<typeof symmetrySchema>;
+
+// One count per direction of the board's grid, plus single-cell snakes
+export const directionCountsSchema = z.record(z.union([directionSchema, z.literal("none")]), z.number());
+
+export type DirectionCounts = z.infer<typeof directionCountsSchema>;
+
+export const pathRulesSchema = z.object({
+  maxBends: z.number().int().min(0, "Maximum bends cannot be negative").optional(),
+  minStraightRun: z.number().int().min(2, "Minimum straight run must be at least 2 cells").optional(),  // Cells per run, corners included
+  straightOnly: z.boolean().optional(),     // Same as maxBends: 0
+  noSelfAdjacency: z.boolean().optional(),  // Forbid a snake touching itself side by side (U-turns)
+}).refine(data => !data.straightOnly || !data.maxBends, {
+  message: "Straight snakes cannot have bends",
+  path: ["maxBends"],
+});
+
+export type PathRules = z.infer<typeof pathRulesSchema>;
+
+export const pieceVocabularySchema = z.object({
+  pieces: z.array(z.string().min(1)).min(1, "At least one piece is required"),  // Tetromino names (I, O, T, S, Z, L, J) or '#' drawings
+  rotations: z.boolean().default(true),
+  reflections: z.boolean().default(true),
+});
+
+export type PieceVocabulary = z.infer<typeof pieceVocabularySchema>;
+
 // Snake generation schemas
+// Bump when generator output changes for existing seeds, keeping older versions callable
+export const GENERATOR_VERSIONS = [1, 2, 3, 4] as const;
+export const LATEST_GENERATOR_VERSION = 4;
+
+export const generatorVersionSchema = z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]);
+
+export type GeneratorVersion = z.infer<typeof generatorVersionSchema>;
+
+export const generatorAlgorithmSchema = z.enum(["greedy", "exact"]);
+
+export type GeneratorAlgorithm = z.infer<typeof generatorAlgorithmSchema>;
+
+// What to optimize when comparing fills, instead of taking the first one found
+export const objectiveSchema = z.enum(["fewestSnakes", "longestMean", "lowestVariance", "hardest"]);
+
+export type Objective = z.infer<typeof objectiveSchema>;
+
+// How the greedy solver picks the next cell to cover
+export const startHeuristicSchema = z.enum(["mostConstrained", "random", "scanline", "boundaryFirst"]);
+
+export type StartHeuristic = z.infer<typeof startHeuristicSchema>;
+
+// Upper bounds on tuning values; the request timeout still applies on top
+export const TUNING_LIMITS = {
+  maxAttempts: 1000,
+  innerAttempts: 5000,
+  maxSnakeAttempts: 500,
+} as const;
+
+export const generatorTuningSchema = z.object({
+  maxAttempts: z.number().int().min(1, "Max attempts must be at least 1")
+    .max(TUNING_LIMITS.maxAttempts, `Max attempts cannot exceed ${TUNING_LIMITS.maxAttempts}`).optional(),  // Fills tried before giving up
+  innerAttempts: z.number().int().min(1, "Inner attempts must be at least 1")
+    .max(TUNING_LIMITS.innerAttempts, `Inner attempts cannot exceed ${TUNING_LIMITS.innerAttempts}`).optional(),  // Stuck cells one fill may recover from
+  maxSnakeAttempts: z.number().int().min(1, "Snake attempts must be at least 1")
+    .max(TUNING_LIMITS.maxSnakeAttempts, `Snake attempts cannot exceed ${TUNING_LIMITS.maxSnakeAttempts}`).optional(),  // Snakes grown per cell before it counts as stuck
+  startHeuristic: startHeuristicSchema.optional(),
+});
+
+export type GeneratorTuning = z.infer<typeof generatorTuningSchema>;
+
 export const generateSnakeSchema = z.object({
   asciiShape: z.string().min(1, "Shape input is required"),
   minSnakeLen: z.number().int().min(2, "Minimum snake length must be at least 2").max(13),
   maxSnakeLen: z.number().int().min(2).max(13, "Maximum snake length cannot exceed 13"),
-  randomSeed: z.number().int().optional(),
+  randomSeed: z.union([
+    z.number().int(),
+    z.string().trim().min(1, "Seed cannot be empty").max(100, "Seed cannot exceed 100 characters"),
+  ]).optional(),
+  targetDifficulty: difficultyBandSchema.optional(),
+  algorithm: generatorAlgorithmSchema.default("greedy"),
+  timeoutMs: z.number().int().min(100, "Timeout must be at least 100ms")
+    .max(60000, "Timeout cannot exceed 60000ms").default(30000),
+  generatorVersion: generatorVersionSchema.default(LATEST_GENERATOR_VERSION),
+  lengthDistribution: lengthDistributionSchema.optional(),
+  minSnakes: z.number().int().min(1, "Minimum snake count must be at least 1").optional(),
+  maxSnakes: z.number().int().min(1, "Maximum snake count must be at least 1").optional(),
+  exactSnakes: z.number().int().min(1, "Snake count must be at least 1").optional(),
+  pathRules: pathRulesSchema.optional(),
+  pieces: pieceVocabularySchema.optional(),
+  headRules: headRulesSchema.optional(),
+  symmetry: symmetrySchema.optional(),  // Place snakes in mirrored pairs; the shape must share the symmetry
+  objective: objectiveSchema.optional(),
+  optimizeMs: z.number().int().min(100, "Optimization budget must be at least 100ms")
+    .max(60000, "Optimization budget cannot exceed 60000ms").optional(),  // Time spent comparing fills; needs an objective
+  grid: gridOptionsSchema.optional(),
+  lockedSnakes: z.array(z.array(positionSchema).min(1, "Each locked snake needs at least one position")).optional(),  // Same format as SnakeShape.positions, head first
+  tuning: generatorTuningSchema.optional(),  // Greedy search budgets; defaults scale with the shape
 }).refine(data => data.minSnakeLen <= data.maxSnakeLen, {
   message: "Minimum snake length must be less than or equal to maximum",
   path: ["minSnakeLen"],
+}).refine(data => !data.lengthDistribution?.buckets || data.lengthDistribution.buckets.some(
+  bucket => bucket.max >= data.minSnakeLen && bucket.min <= data.maxSnakeLen
+), {
+  message: "At least one length bucket must overlap the snake length range",
+  path: ["lengthDistribution", "buckets"],
+}).refine(data => {
+  const mean = data.lengthDistribution?.meanLength;
+  return mean === undefined || (mean >= data.minSnakeLen && mean <= data.maxSnakeLen);
+}, {
+  message: "Mean length target must lie within the snake length range",
+  path: ["lengthDistribution", "meanLength"],
+}).refine(data => data.exactSnakes === undefined || (data.minSnakes === undefined && data.maxSnakes === undefined), {
+  message: "Use either an exact snake count or a minimum/maximum, not both",
+  path: ["exactSnakes"],
+}).refine(data => data.minSnakes === undefined || data.maxSnakes === undefined || data.minSnakes <= data.maxSnakes, {
+  message: "Minimum snake count must be less than or equal to maximum",
+  path: ["minSnakes"],
+}).refine(data => data.optimizeMs === undefined || (data.objective !== undefined && data.optimizeMs < data.timeoutMs), {
+  message: "An optimization budget needs an objective and must be shorter than the timeout",
+  path: ["optimizeMs"],
 });
 
 export type GenerateSnakeRequest = z.infer<typeof generateSnakeSchema>;
 
-export const positionSchema = z.object({
-  x: z.number(),
-  y: z.number(),
-});
-
-export type Position = z.infer<typeof positionSchema>;
+// A request body as sent, before defaults are filled in
+export type GenerateSnakeRequestBody = z.input<typeof generateSnakeSchema>;
 
-export const directionSchema = z.enum(["up", "down", "left", "right"]);
+export const boardLayoutSchema = z.object({
+  width: z.number(),
+  height: z.number(),
+  walls: z.array(positionSchema),  // 'X' cells, which block sliding
+  grid: gridOptionsSchema,
+});
 
-export type Direction = z.infer<typeof directionSchema>;
+export type BoardLayout = z.infer<typeof boardLayoutSchema>;
 
 export const snakeShapeSchema = z.object({
   type: z.string(),
@@ -30,15 +233,128 @@ export const snakeShapeSchema = z.object({
   direction: directionSchema.nullable(),
   lookingAt: positionSchema.nullable(),
   positions: z.array(positionSchema),
+  blockedBy: z.array(z.string()),
+  blocks: z.array(z.string()),
+  bends: z.number(),
 });
 
 export type SnakeShape = z.infer<typeof snakeShapeSchema>;
 
+// A part of the shape that rules out every fill, found before searching
+export const shapeDiagnosticSchema = z.object({
+  message: z.string(),
+  cells: z.array(positionSchema),  // Cells the problem is about
+});
+
+export type ShapeDiagnostic = z.infer<typeof shapeDiagnosticSchema>;
+
+// The fill that covered the most tiles in a failed search
+export const partialFillSchema = z.object({
+  shapes: z.array(snakeShapeSchema),
+  uncovered: z.array(positionSchema),
+});
+
+export type PartialFill = z.infer<typeof partialFillSchema>;
+
 export const generateSnakeResponseSchema = z.object({
   success: z.boolean(),
   shapes: z.array(snakeShapeSchema).optional(),
   attempts: z.number().optional(),
+  escapeOrder: z.array(z.string()).optional(),
+  difficulty: difficultySchema.optional(),
+  timedOut: z.boolean().optional(),
+  seed: z.union([z.number(), z.string()]).optional(),  // Effective seed, also reported on failure
+  generatorVersion: generatorVersionSchema.optional(),
+  lengths: lengthStatsSchema.optional(),  // Achieved snake length distribution
+  objectiveScore: z.number().optional(),  // The returned fill's value for the requested objective
+  directions: directionCountsSchema.optional(),  // Achieved head direction histogram
+  board: boardLayoutSchema.optional(),
+  diagnostics: z.array(shapeDiagnosticSchema).optional(),  // Why the shape cannot be filled at all
+  partialFill: partialFillSchema.optional(),  // Best attempt when search failed without covering every tile
+  tuning: generatorTuningSchema.optional(),  // Tuning values the greedy solver ran with, defaults filled in
   error: z.string().optional(),
 });
 
 export type GenerateSnakeResponse = z.infer<typeof generateSnakeResponseSchema>;
+
+// Blocking graph schemas
+export const blockingGraphRequestSchema = z.object({
+  snakes: z.array(z.array(positionSchema).min(1, "Each snake needs at least one position"))
+    .min(1, "At least one snake is required"),
+  asciiShape: z.string().min(1, "Shape cannot be empty").optional(),  // Snake cells must lie on it when given
+  grid: gridOptionsSchema.optional(),  // Square cells when unset; positions use its output coordinates
+});
+
+export type BlockingGraphRequest = z.infer<typeof blockingGraphRequestSchema>;
+
+export const blockingEdgeSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+});
+
+export type BlockingEdge = z.infer<typeof blockingEdgeSchema>;
+
+export const blockingGraphResponseSchema = z.object({
+  success: z.boolean(),
+  shapes: z.array(snakeShapeSchema).optional(),
+  edges: z.array(blockingEdgeSchema).optional(),
+  dot: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export type BlockingGraphResponse = z.infer<typeof blockingGraphResponseSchema>;
+
+// Generation progress schemas
+export const generationProgressSchema = z.object({
+  attempt: z.number(),
+  bestCoverage: z.number(),  // Fraction of tiles covered by the best partial fill so far
+});
+
+export type GenerationProgress = z.infer<typeof generationProgressSchema>;
+
+export const generationEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("attempt"), attempt: z.number() }),
+  z.object({ type: z.literal("place"), attempt: z.number(), snakes: z.number(), covered: z.number() }),
+  z.object({ type: z.literal("backtrack"), attempt: z.number(), snakes: z.number(), covered: z.number() }),
+  generationProgressSchema.extend({ type: z.literal("progress") }),
+]);
+
+export type GenerationEvent = z.infer<typeof generationEventSchema>;
+
+// Messages on the /ws/generate WebSocket
+export const generationClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("start"), request: z.unknown() }),
+  z.object({ type: z.literal("cancel") }),
+]);
+
+export type GenerationClientMessage = z.infer<typeof generationClientMessageSchema>;
+
+export type GenerationServerMessage =
+  | { type: "event"; event: GenerationEvent }
+  | { type: "result"; response: GenerateSnakeResponse }
+  | { type: "cancelled" };
+
+// Generation job schemas
+export const jobStatusSchema = z.enum(["queued", "running", "succeeded", "failed", "cancelled"]);
+
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+export const jobSchema = z.object({
+  id: z.string(),
+  status: jobStatusSchema,
+  request: generateSnakeSchema,
+  progress: generationProgressSchema.nullable(),
+  result: generateSnakeResponseSchema.nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Job = z.infer<typeof jobSchema>;
+
+export const jobResponseSchema = z.object({
+  success: z.boolean(),
+  job: jobSchema.optional(),
+  error: z.string().optional(),
+});
+
+export type JobResponse = z.infer<typeof jobResponseSchema>;